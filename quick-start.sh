@@ -151,7 +151,8 @@ fi
 
 # Namespace ID
 echo ""
-print_info "Namespace ID must be exactly 10 bytes (20 hex characters)"
+print_info "Namespace ID must be exactly 10 bytes (20 hex characters), or <version>:<id> (only version 0)"
+print_info "Leave it empty to reuse the namespace recorded for the chain"
 read -p "$(echo -e ${BLUE}Enter Celestia namespace ID ${NC}[leave empty to auto-generate]: )" CELESTIA_NAMESPACE
 
 # RPC Endpoint
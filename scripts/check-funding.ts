@@ -0,0 +1,330 @@
+import { config } from 'dotenv';
+import { createPublicClient, createWalletClient, formatEther, formatGwei, http, type Address, type Hex } from 'viem';
+import { explorerTxUrl, resolveParentChain } from '../src/chains/index.js';
+import { loadRoleSigner, roleSignerAddresses, SignerError, signerSourceFromEnv } from '../src/signer/index.js';
+import {
+  DeploymentSelectionError,
+  hasDeploymentSelector,
+  parseDeploymentSelector,
+  resolveDeployment,
+} from '../src/deployments/index.js';
+import {
+  fetchFeeTokenBalance,
+  fetchFeeTokenInfo,
+  FeeTokenError,
+  formatTokenAmount,
+  isCustomFeeToken,
+} from '../src/fee-token/index.js';
+import {
+  celestiaFundingThreshold,
+  DEFAULT_RUNWAY_HOURS,
+  fetchCelestiaBalance,
+  formatUtia,
+  FUNDING_ROLE_LABELS,
+  FundingError,
+  fundingStatus,
+  groupFundingAccounts,
+  GAS_PRICE_HEADROOM,
+  topUpAmount,
+  type FundedAccount,
+  type FundingParameters,
+  type FundingRole,
+} from '../src/funding/index.js';
+import { loadDeploymentManifest, ManifestValidationError } from '../src/manifest/index.js';
+import { hasFailures, printReport, type CheckResult } from '../src/report/index.js';
+
+config();
+
+// Gas of a plain value transfer
+const TRANSFER_GAS = 21_000n;
+
+function printUsage(): void {
+  console.log(`
+Usage: tsx scripts/check-funding.ts [options]
+
+Checks that every account the chain spends parent chain gas from can pay its
+way: the deployer (before deploying), the batch poster and the validators.
+Each is held to a threshold derived from the current gas price (times
+${GAS_PRICE_HEADROOM} for headroom): the createRollup call for the deployer, and a runway of
+hourly batches of up to MAX_DATA_SIZE bytes or hourly assertions for the
+operators. An address holding several roles has to cover all of them. For
+celestia chains the Celestia account that pays for blobs is checked too, when
+its address and a Celestia API are given.
+
+Accounts come from the selected deployment, else from the manifest, .env
+(BATCH_POSTER_ADDRESS, VALIDATOR_ADDRESSES) or the roles' signers, which default to
+the deployer's (PRIVATE_KEY, DEPLOYER_KEYSTORE or DEPLOYER_REMOTE_SIGNER_URL).
+
+Options:
+  --chain-id <id>          Check the accounts of the deployment with this chain ID
+  --chain <name>           Check the accounts of the deployment with this chain name
+  --file <path>            Check the accounts of this deployment file
+  --manifest <path>        Deployment manifest (MAX_DATA_SIZE, DA mode, accounts)
+  --runway-hours <n>       Hours of batches and assertions to hold funds for (default: ${DEFAULT_RUNWAY_HOURS})
+  --celestia-address <a>   Celestia account paying for blobs (default: CELESTIA_ACCOUNT_ADDRESS)
+  --celestia-api <url>     Celestia REST API to read its balance from (default: CELESTIA_API_URL)
+  --top-up                 Send funds from the treasury signer (TREASURY_PRIVATE_KEY,
+                           TREASURY_KEYSTORE or TREASURY_REMOTE_SIGNER_URL) to every account below
+                           twice its threshold, bringing it up to twice the threshold
+  --dry-run                With --top-up, show the transfers without sending them
+  --json                   Print the report as JSON
+  --help, -h               Show this help message
+
+Exit codes: 0 when every account is funded, 1 when one is below its threshold,
+2 when the check itself failed.
+`);
+}
+
+interface TopUp {
+  address: Address;
+  amount: bigint;
+  transactionHash?: Hex;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    return;
+  }
+
+  const optionValue = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  const json = args.includes('--json');
+  const topUp = args.includes('--top-up');
+  const dryRun = args.includes('--dry-run');
+  const log = (message: string) => !json && console.log(message);
+
+  const runwayHours = Number(optionValue('--runway-hours') ?? DEFAULT_RUNWAY_HOURS);
+  if (!Number.isInteger(runwayHours) || runwayHours < 1) {
+    throw new FundingError('--runway-hours must be a positive integer');
+  }
+  if (!process.env.PARENT_CHAIN_RPC) {
+    throw new FundingError('PARENT_CHAIN_RPC must be set in .env');
+  }
+
+  const { manifest } = loadDeploymentManifest(optionValue('--manifest'));
+  const selector = parseDeploymentSelector(args);
+  const deployment = hasDeploymentSelector(selector) ? resolveDeployment(selector).info : undefined;
+
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: process.env.PARENT_CHAIN_RPC,
+    chainId: deployment?.parentChainId ?? manifest.parentChainId,
+  });
+  const parentChain = parentChainInfo.chain;
+  const currency = parentChain.nativeCurrency.symbol;
+  const publicClient = createPublicClient({ chain: parentChain, transport: http(process.env.PARENT_CHAIN_RPC) });
+
+  // Accounts default to the roles' signers, then the deployer, as in deploy-orbit.ts
+  const signers = await roleSignerAddresses();
+  const deployer = signers.deployer;
+  const batchPoster =
+    (deployment?.batchPoster as Address | undefined) ?? manifest.batchPoster ?? signers['batch-poster'] ?? deployer;
+  const validator = signers.validator ?? deployer;
+  const validators = (deployment?.validators as Address[] | undefined) ?? manifest.validators ?? (validator ? [validator] : []);
+  const roles: { role: FundingRole; address: Address }[] = [
+    // Once deployed, the deployer has nothing left to pay for
+    ...(!deployment && deployer ? [{ role: 'deployer' as const, address: deployer }] : []),
+    ...(batchPoster ? [{ role: 'batch-poster' as const, address: batchPoster }] : []),
+    ...validators.map((address) => ({ role: 'validator' as const, address })),
+  ];
+  if (roles.length === 0) {
+    throw new FundingError('No accounts to check: set the deployer signer or select a deployment with --chain-id');
+  }
+
+  const daMode = deployment?.daMode ?? manifest.daMode;
+  const params: FundingParameters = {
+    gasPrice: await publicClient.getGasPrice(),
+    maxDataSize: manifest.maxDataSize,
+    daMode,
+    fallbackToEthereum: manifest.daProvider.fallbackToEthereum,
+    runwayHours,
+  };
+
+  const readBalances = async (): Promise<FundedAccount[]> =>
+    Promise.all(
+      groupFundingAccounts(roles, params).map(async (account) => ({
+        ...account,
+        balance: await publicClient.getBalance({ address: account.address }),
+      }))
+    );
+  let accounts = await readBalances();
+
+  log('💰 Checking Funding\n');
+
+  // Top-ups go out before the report, so it shows the balances they leave behind
+  const topUps: TopUp[] = [];
+  if (topUp) {
+    if (!signerSourceFromEnv('treasury')) {
+      throw new FundingError('--top-up needs TREASURY_PRIVATE_KEY, TREASURY_KEYSTORE or TREASURY_REMOTE_SIGNER_URL in .env');
+    }
+    const treasury = await loadRoleSigner('treasury');
+    const planned = accounts
+      .filter((account) => account.address.toLowerCase() !== treasury.address.toLowerCase())
+      .map((account) => ({ address: account.address, amount: topUpAmount(account.balance, account.required) }))
+      .filter((transfer) => transfer.amount > 0n);
+
+    const transferGas = TRANSFER_GAS * params.gasPrice * GAS_PRICE_HEADROOM;
+    const total = planned.reduce((sum, transfer) => sum + transfer.amount + transferGas, 0n);
+    const treasuryBalance = await publicClient.getBalance({ address: treasury.address });
+    if (treasuryBalance < total) {
+      throw new FundingError(
+        `Treasury ${treasury.address} holds ${formatEther(treasuryBalance)} ${currency}, ` +
+          `but the top-ups need ${formatEther(total)} ${currency}`
+      );
+    }
+
+    const walletClient = createWalletClient({
+      account: treasury,
+      chain: parentChain,
+      transport: http(process.env.PARENT_CHAIN_RPC),
+    });
+    for (const transfer of planned) {
+      if (dryRun) {
+        log(`🧪 Would send ${formatEther(transfer.amount)} ${currency} to ${transfer.address}`);
+        topUps.push(transfer);
+        continue;
+      }
+      log(`💸 Sending ${formatEther(transfer.amount)} ${currency} to ${transfer.address}...`);
+      const hash = await walletClient.sendTransaction({ to: transfer.address, value: transfer.amount });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new FundingError(`Top-up of ${transfer.address} reverted: ${hash}`);
+      }
+      topUps.push({ ...transfer, transactionHash: hash });
+    }
+    if (planned.length > 0 && !dryRun) {
+      accounts = await readBalances();
+      log('');
+    }
+  }
+
+  const checks: CheckResult[] = [
+    { section: 'Parent Chain', name: 'Chain', status: 'info', detail: `${parentChain.name} (${parentChain.id})` },
+    { section: 'Parent Chain', name: 'Gas price', status: 'info', detail: `${formatGwei(params.gasPrice)} gwei` },
+    {
+      section: 'Parent Chain',
+      name: 'Runway',
+      status: 'info',
+      detail: `${runwayHours}h of batches (up to ${params.maxDataSize} bytes, ${daMode} DA) and assertions`,
+    },
+  ];
+  if (deployment) {
+    checks.push({ section: 'Parent Chain', name: 'Deployment', status: 'info', detail: `${deployment.chainName} (${deployment.chainId})` });
+  }
+
+  for (const account of accounts) {
+    const status = fundingStatus(account.balance, account.required);
+    checks.push({
+      section: 'Accounts',
+      name: account.roles.map((role) => FUNDING_ROLE_LABELS[role]).join(' + '),
+      status,
+      detail:
+        `${account.address}: ${formatEther(account.balance)} ${currency} (needs ${formatEther(account.required)} ${currency})` +
+        (status === 'fail' && parentChainInfo.faucetUrl ? `, faucet: ${parentChainInfo.faucetUrl}` : ''),
+    });
+  }
+
+  // Custom gas token chains also pay the createRollup retryables in the fee token
+  const nativeToken = deployment?.nativeToken ?? manifest.nativeToken;
+  if (!deployment && deployer && isCustomFeeToken(nativeToken)) {
+    const token = await fetchFeeTokenInfo(publicClient, nativeToken);
+    const tokenBalance = await fetchFeeTokenBalance(publicClient, nativeToken, deployer);
+    checks.push({
+      section: 'Accounts',
+      name: `Deployer ${token.symbol}`,
+      status: tokenBalance > 0n ? 'pass' : 'fail',
+      detail: `${formatTokenAmount(tokenBalance, token)}${tokenBalance > 0n ? '' : '; createRollup retryables are paid in the fee token'}`,
+    });
+  }
+
+  let celestia: { address: string; balance: string; required: string } | undefined;
+  if (daMode === 'celestia') {
+    const celestiaAddress = optionValue('--celestia-address') ?? process.env.CELESTIA_ACCOUNT_ADDRESS;
+    const celestiaApi = optionValue('--celestia-api') ?? process.env.CELESTIA_API_URL;
+    if (!celestiaAddress || !celestiaApi) {
+      checks.push({
+        section: 'Celestia',
+        name: 'DA account',
+        status: 'info',
+        detail: 'not checked; pass --celestia-address and --celestia-api',
+      });
+    } else {
+      const required = celestiaFundingThreshold(params);
+      try {
+        const balance = await fetchCelestiaBalance(celestiaApi, celestiaAddress);
+        celestia = { address: celestiaAddress, balance: balance.toString(), required: required.toString() };
+        checks.push({
+          section: 'Celestia',
+          name: 'DA account',
+          status: fundingStatus(balance, required),
+          detail: `${celestiaAddress}: ${formatUtia(balance)} (needs ${formatUtia(required)})`,
+        });
+      } catch (error) {
+        if (!(error instanceof FundingError)) {
+          throw error;
+        }
+        checks.push({ section: 'Celestia', name: 'DA account', status: 'warn', detail: error.message });
+      }
+    }
+  }
+
+  for (const transfer of topUps) {
+    const explorerUrl = transfer.transactionHash && explorerTxUrl(parentChain, transfer.transactionHash);
+    checks.push({
+      section: dryRun ? 'Top-up (dry run)' : 'Top-up',
+      name: transfer.address,
+      status: 'info',
+      detail: `${formatEther(transfer.amount)} ${currency}${transfer.transactionHash ? ` in ${explorerUrl ?? transfer.transactionHash}` : ''}`,
+    });
+  }
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        {
+          ok: !hasFailures(checks),
+          parentChain: { name: parentChain.name, id: parentChain.id },
+          gasPrice: params.gasPrice.toString(),
+          runwayHours,
+          daMode,
+          accounts: accounts.map((account) => ({
+            address: account.address,
+            roles: account.roles,
+            balance: account.balance.toString(),
+            required: account.required.toString(),
+            status: fundingStatus(account.balance, account.required),
+          })),
+          ...(celestia && { celestia }),
+          ...(topUp && {
+            topUps: topUps.map((transfer) => ({ ...transfer, amount: transfer.amount.toString(), dryRun })),
+          }),
+          checks,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    printReport('Funding Report', checks);
+  }
+
+  process.exit(hasFailures(checks) ? 1 : 0);
+}
+
+main().catch((error) => {
+  if (
+    error instanceof FundingError ||
+    error instanceof SignerError ||
+    error instanceof DeploymentSelectionError ||
+    error instanceof FeeTokenError ||
+    error instanceof ManifestValidationError
+  ) {
+    console.error(`❌ Error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(2);
+});
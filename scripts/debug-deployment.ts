@@ -0,0 +1,403 @@
+import { createRollupPrepareTransaction } from '@arbitrum/orbit-sdk';
+import { config } from 'dotenv';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  decodeErrorResult,
+  getAddress,
+  http,
+  isHex,
+  parseAbi,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type Transaction,
+  type TransactionReceipt,
+} from 'viem';
+import { explorerTxUrl, resolveParentChain } from '../src/chains/index.js';
+import { parseDeploymentSelector, resolveDeployment } from '../src/deployments/index.js';
+import { hasFailures, printReport, type CheckResult } from '../src/report/index.js';
+import { signerAddress, signerSourceFromEnv } from '../src/signer/index.js';
+import type { DeploymentInfo } from '../src/types/index.js';
+
+config();
+
+// Errors that can surface from RollupCreator.createRollup, including the ones
+// raised by the contracts it initializes (nitro-contracts libraries/Error.sol)
+const ROLLUP_CREATOR_ERRORS_ABI = parseAbi([
+  'error AlreadyInit()',
+  'error HadZeroInit()',
+  'error NotOwner(address sender, address owner)',
+  'error NotRollup(address sender, address rollup)',
+  'error NotRollupOrOwner(address sender, address rollup, address owner)',
+  'error NotContract(address addr)',
+  'error DataTooLarge(uint256 dataLength, uint256 maxDataLength)',
+  'error BadMaxTimeVariation()',
+  'error InvalidTokenSet(address token)',
+  'error NativeTokenMismatch()',
+  'error NotCodelessOrigin()',
+  'error InsufficientValue(uint256 expected, uint256 actual)',
+]);
+
+const ROLLUP_ABI = parseAbi([
+  'function wasmModuleRoot() view returns (bytes32)',
+  'function chainId() view returns (uint256)',
+  'function isValidator(address) view returns (bool)',
+]);
+
+const SEQUENCER_INBOX_ABI = parseAbi(['function isBatchPoster(address) view returns (bool)']);
+
+interface CallFrame {
+  type?: string;
+  to?: string;
+  error?: string;
+  revertReason?: string;
+  output?: Hex;
+  calls?: CallFrame[];
+}
+
+function describeRevertData(data: Hex | undefined): string {
+  if (!data || data === '0x') {
+    return 'reverted without data';
+  }
+  try {
+    const decoded = decodeErrorResult({ abi: ROLLUP_CREATOR_ERRORS_ABI, data });
+    const args = decoded.args?.map(arg => String(arg)).join(', ') ?? '';
+    return `${decoded.errorName}(${args})`;
+  } catch {
+    return `unknown error data ${data.slice(0, 10)}`;
+  }
+}
+
+// Finds the innermost reverted frame of a callTracer trace
+function findRevertedFrame(frame: CallFrame): CallFrame | undefined {
+  if (!frame.error) {
+    return undefined;
+  }
+  for (const call of frame.calls ?? []) {
+    const inner = findRevertedFrame(call);
+    if (inner) {
+      return inner;
+    }
+  }
+  return frame;
+}
+
+async function diagnoseRevert(
+  publicClient: PublicClient,
+  tx: Transaction,
+  receipt: TransactionReceipt
+): Promise<CheckResult[]> {
+  const checks: CheckResult[] = [];
+  const section = 'Revert Analysis';
+
+  // Prefer a call trace, which shows which inner contract reverted
+  try {
+    const trace = (await publicClient.request({
+      method: 'debug_traceTransaction',
+      params: [tx.hash, { tracer: 'callTracer' }],
+    } as any)) as CallFrame;
+
+    const frame = findRevertedFrame(trace);
+    if (frame) {
+      checks.push({
+        section,
+        name: 'Trace',
+        status: 'fail',
+        detail: `${frame.type ?? 'CALL'} to ${frame.to} failed: ${frame.revertReason ?? frame.error}`,
+      });
+      checks.push({ section, name: 'Decoded error', status: 'fail', detail: describeRevertData(frame.output) });
+      return checks;
+    }
+  } catch {
+    checks.push({ section, name: 'Trace', status: 'info', detail: 'debug_traceTransaction not available, replaying instead' });
+  }
+
+  // Fall back to replaying the transaction as an eth_call on the parent block
+  try {
+    await publicClient.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      gas: tx.gas,
+      blockNumber: receipt.blockNumber - 1n,
+    });
+    checks.push({
+      section,
+      name: 'Replay',
+      status: 'warn',
+      detail: 'replay succeeded; the revert depends on state within the block (e.g. nonce or ordering)',
+    });
+  } catch (error) {
+    let detail = error instanceof BaseError ? error.shortMessage : String(error);
+    if (error instanceof BaseError) {
+      const reverted = error.walk(inner => inner instanceof ContractFunctionRevertedError);
+      const rawData = (error.walk() as { data?: Hex }).data;
+      if (reverted instanceof ContractFunctionRevertedError && reverted.reason) {
+        detail = reverted.reason;
+      } else if (rawData && isHex(rawData)) {
+        detail = describeRevertData(rawData);
+      }
+    }
+    checks.push({ section, name: 'Replay', status: 'fail', detail });
+  }
+
+  if (receipt.gasUsed === tx.gas) {
+    checks.push({ section, name: 'Gas', status: 'fail', detail: `used all ${tx.gas} gas (out of gas)` });
+  }
+
+  return checks;
+}
+
+async function checkContracts(publicClient: PublicClient, deployment: DeploymentInfo): Promise<CheckResult[]> {
+  const checks: CheckResult[] = [];
+  const contracts = deployment.contracts as Record<string, unknown>;
+
+  for (const [name, address] of Object.entries(contracts)) {
+    // nativeToken is the zero address on ETH-native chains
+    if (typeof address !== 'string' || !address.startsWith('0x') || address.length !== 42 || address === zeroAddress) {
+      continue;
+    }
+    const code = await publicClient.getBytecode({ address: address as Address });
+    checks.push({
+      section: 'Contract Bytecode',
+      name,
+      status: code && code !== '0x' ? 'pass' : 'fail',
+      detail: code && code !== '0x' ? `${address} (${(code.length - 2) / 2} bytes)` : `${address} has no code`,
+    });
+  }
+
+  if (checks.length === 0) {
+    checks.push({
+      section: 'Contract Bytecode',
+      name: 'contracts',
+      status: 'warn',
+      detail: 'no contract addresses recorded; run npm run parse-deployment',
+    });
+  }
+
+  return checks;
+}
+
+async function checkConfiguration(
+  publicClient: PublicClient,
+  deployment: DeploymentInfo,
+  tx: Transaction,
+  expectedWasmRoot: string | undefined
+): Promise<CheckResult[]> {
+  const checks: CheckResult[] = [];
+  const section = 'Configuration';
+  const rollup = deployment.contracts.rollup as Address | undefined;
+  const sequencerInbox = deployment.contracts.sequencerInbox as Address | undefined;
+
+  // What was actually sent to the RollupCreator
+  let inputs: ReturnType<ReturnType<typeof createRollupPrepareTransaction>['getInputs']> | undefined;
+  try {
+    inputs = createRollupPrepareTransaction(tx).getInputs();
+  } catch {
+    checks.push({ section, name: 'createRollup input', status: 'warn', detail: 'transaction is not a createRollup call' });
+  }
+
+  if (!rollup) {
+    return checks;
+  }
+
+  const [onChainWasmRoot, onChainChainId] = await Promise.all([
+    publicClient.readContract({ address: rollup, abi: ROLLUP_ABI, functionName: 'wasmModuleRoot' }),
+    publicClient.readContract({ address: rollup, abi: ROLLUP_ABI, functionName: 'chainId' }),
+  ]);
+
+  checks.push({
+    section,
+    name: 'Chain ID',
+    status: Number(onChainChainId) === deployment.chainId ? 'pass' : 'fail',
+    detail: `rollup reports ${onChainChainId}, deployment file has ${deployment.chainId}`,
+  });
+
+  if (expectedWasmRoot) {
+    const expected = (expectedWasmRoot.startsWith('0x') ? expectedWasmRoot : `0x${expectedWasmRoot}`).toLowerCase();
+    checks.push({
+      section,
+      name: 'Wasm module root',
+      status: onChainWasmRoot.toLowerCase() === expected ? 'pass' : 'fail',
+      detail:
+        onChainWasmRoot.toLowerCase() === expected
+          ? onChainWasmRoot
+          : `rollup has ${onChainWasmRoot}, expected ${expected}`,
+    });
+  } else {
+    checks.push({ section, name: 'Wasm module root', status: 'info', detail: `${onChainWasmRoot} (no expected value given)` });
+  }
+
+  const batchPosters = new Set<string>([getAddress(deployment.batchPoster)]);
+  const batchPosterSource = signerSourceFromEnv('batch-poster');
+  if (batchPosterSource) {
+    batchPosters.add(await signerAddress(batchPosterSource));
+  }
+  // Older rollup creators take a single batchPoster instead of a list
+  const createRollupParams = inputs?.[0];
+  const txBatchPosters =
+    createRollupParams && 'batchPosters' in createRollupParams
+      ? createRollupParams.batchPosters
+      : createRollupParams && 'batchPoster' in createRollupParams
+        ? [createRollupParams.batchPoster]
+        : [];
+  for (const poster of txBatchPosters) {
+    batchPosters.add(getAddress(poster));
+  }
+
+  if (sequencerInbox) {
+    for (const poster of batchPosters) {
+      const isBatchPoster = await publicClient.readContract({
+        address: sequencerInbox,
+        abi: SEQUENCER_INBOX_ABI,
+        functionName: 'isBatchPoster',
+        args: [poster as Address],
+      });
+      checks.push({
+        section,
+        name: 'Batch poster',
+        status: isBatchPoster ? 'pass' : 'fail',
+        detail: `${poster} ${isBatchPoster ? 'is' : 'is NOT'} a batch poster on the sequencer inbox`,
+      });
+    }
+  }
+
+  for (const validator of deployment.validators) {
+    const isValidator = await publicClient.readContract({
+      address: rollup,
+      abi: ROLLUP_ABI,
+      functionName: 'isValidator',
+      args: [validator as Address],
+    });
+    checks.push({
+      section,
+      name: 'Validator',
+      status: isValidator ? 'pass' : 'fail',
+      detail: `${validator} ${isValidator ? 'is' : 'is NOT'} an allowed validator on the rollup`,
+    });
+  }
+
+  return checks;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: tsx scripts/debug-deployment.ts [options]
+
+Diagnoses a deployment: fetches the createRollup receipt, traces or replays a
+reverted transaction and decodes the revert reason, checks that every recorded
+contract has bytecode, and compares the on-chain configuration (chain ID, wasm
+module root, batch poster, validators) against the deployment.
+
+A reverted deployment writes no deployment file; diagnose its transaction with
+--tx instead (npm run deploy prints the command).
+
+Options:
+  --chain-id <id>      Deployment to use, by chain ID
+  --chain <name>       Deployment to use, by chain name
+  --file <path>        Deployment file (default: the only chain in deployments/)
+  --tx <hash>          Diagnose a createRollup transaction without a deployment file
+  --wasm-root <hash>   Expected wasm module root (default: WASM_ROOT)
+  --json               Print the report as JSON
+  --help, -h           Show this help message
+`);
+    return;
+  }
+
+  const selector = parseDeploymentSelector(args);
+
+  const wasmRootIndex = args.indexOf('--wasm-root');
+  const expectedWasmRoot = wasmRootIndex !== -1 ? args[wasmRootIndex + 1] : process.env.WASM_ROOT || undefined;
+
+  const txIndex = args.indexOf('--tx');
+  const txHash = txIndex !== -1 ? args[txIndex + 1] : undefined;
+  if (txHash !== undefined && (!isHex(txHash) || txHash.length !== 66)) {
+    throw new Error(`--tx needs a transaction hash (got ${txHash})`);
+  }
+
+  const json = args.includes('--json');
+
+  if (!process.env.PARENT_CHAIN_RPC) {
+    throw new Error('PARENT_CHAIN_RPC not set in .env');
+  }
+
+  // Only successful deployments have a file; a bare transaction is checked against the RPC's chain
+  const resolved = txHash ? undefined : resolveDeployment(selector);
+  const deployment = resolved?.info;
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: process.env.PARENT_CHAIN_RPC,
+    chainId: deployment?.parentChainId,
+  });
+  const publicClient = createPublicClient({
+    chain: parentChainInfo.chain,
+    transport: http(process.env.PARENT_CHAIN_RPC),
+  });
+
+  const checks: CheckResult[] = resolved
+    ? [
+        { section: 'Deployment', name: 'File', status: 'info', detail: resolved.file },
+        { section: 'Deployment', name: 'Chain', status: 'info', detail: `${resolved.info.chainName} (${resolved.info.chainId})` },
+      ]
+    : [{ section: 'Deployment', name: 'Transaction', status: 'info', detail: `${txHash} (no deployment file)` }];
+  checks.push({
+    section: 'Deployment',
+    name: 'Parent chain',
+    status: 'info',
+    detail: `${parentChainInfo.chain.name} (${parentChainInfo.chain.id})`,
+  });
+
+  const hash = (txHash ?? deployment!.transactionHash) as Hex;
+  const tx = await publicClient.getTransaction({ hash }).catch(() => undefined);
+  const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => undefined);
+
+  if (!tx) {
+    checks.push({ section: 'Transaction', name: 'Lookup', status: 'fail', detail: `${hash} not found on the parent chain` });
+  } else if (!receipt) {
+    checks.push({ section: 'Transaction', name: 'Receipt', status: 'warn', detail: `${hash} is still pending` });
+  } else {
+    const explorerUrl = explorerTxUrl(parentChainInfo.chain, hash);
+    checks.push({
+      section: 'Transaction',
+      name: 'Status',
+      status: receipt.status === 'success' ? 'pass' : 'fail',
+      detail: `${receipt.status} in block ${receipt.blockNumber}${explorerUrl ? ` (${explorerUrl})` : ''}`,
+    });
+    checks.push({ section: 'Transaction', name: 'Gas used', status: 'info', detail: `${receipt.gasUsed} of ${tx.gas}` });
+
+    if (receipt.status === 'reverted') {
+      checks.push(...(await diagnoseRevert(publicClient, tx, receipt)));
+    } else if (deployment) {
+      checks.push(...(await checkContracts(publicClient, deployment)));
+      checks.push(...(await checkConfiguration(publicClient, deployment, tx, expectedWasmRoot)));
+    } else {
+      checks.push({
+        section: 'Transaction',
+        name: 'Deployment',
+        status: 'info',
+        detail: 'the transaction succeeded; pass its deployment file for the contract and configuration checks',
+      });
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ deployment: resolved?.file ?? null, transaction: hash, ok: !hasFailures(checks), checks }, null, 2));
+  } else {
+    console.log('🩺 Deployment Diagnostics\n');
+    printReport('Diagnostic Report', checks);
+  }
+
+  process.exit(hasFailures(checks) ? 1 : 0);
+}
+
+main().catch((error) => {
+  const message = error instanceof BaseError ? error.shortMessage : error?.message ?? String(error);
+  console.error(`❌ Diagnostics failed: ${message}`);
+  process.exit(1);
+});
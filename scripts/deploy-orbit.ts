@@ -1,31 +1,90 @@
 import {
   createRollup,
+  createRollupEnoughCustomFeeTokenAllowance,
+  createRollupGetRetryablesFeesWithDefaults,
+  createRollupPrepareCustomFeeTokenApprovalTransactionRequest,
   createRollupPrepareDeploymentParamsConfig,
   createRollupPrepareTransactionReceipt,
   createRollupPrepareTransactionRequest,
   prepareChainConfig,
-  prepareNodeConfig,
+  scaleFrom18DecimalsToNativeTokenDecimals,
+  type CoreContracts,
+  type CreateRollupPrepareDeploymentParamsConfigResult,
 } from '@arbitrum/orbit-sdk';
 import { config } from 'dotenv';
-import { sepolia } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
 import { writeFileSync } from 'fs';
-import type { DeploymentInfo } from '../src/types/index.js';
+import type { DeploymentInfo, NativeTokenInfo, RollupParameters } from '../src/types/index.js';
+import {
+  CUSTOM_PARENT_CHAIN_DEFAULTS,
+  explorerTxUrl,
+  registerCustomParentChainWithSdk,
+  resolveParentChain,
+  type ParentChainInfo,
+} from '../src/chains/index.js';
+import {
+  loadDeploymentManifest,
+  ManifestValidationError,
+  type DaMode,
+  type DeploymentManifest,
+} from '../src/manifest/index.js';
+import { DEPLOYMENT_INFO_VERSION, loadDeploymentInfo } from '../src/deployments/index.js';
+import { writeSecretFile } from '../src/secrets/index.js';
+import { DEFAULT_RUNWAY_HOURS, fundingThreshold } from '../src/funding/index.js';
+import {
+  nodeSignerFromEnv,
+  prepareChainNodeConfig,
+  type CelestiaNodeConfig,
+  type NodeSigner,
+} from '../src/node-config/index.js';
+import {
+  describeSignerSource,
+  loadSigner,
+  roleSignerAddresses,
+  SignerError,
+  signerSourceFromEnv,
+} from '../src/signer/index.js';
+import { deriveNamespace, formatNamespace } from '../src/namespace/index.js';
+import { PreflightError, runPreflightChecks } from '../src/preflight/index.js';
+import { consensusReleaseByWasmModuleRoot } from '../src/consensus/index.js';
+import { hasFailures, printReport } from '../src/report/index.js';
+import {
+  fetchFeeTokenBalance,
+  fetchFeeTokenInfo,
+  FeeTokenError,
+  formatTokenAmount,
+  isCustomFeeToken,
+  STANDARD_FEE_TOKEN_DECIMALS,
+} from '../src/fee-token/index.js';
+import {
+  archiveJournal,
+  createJournal,
+  journalPath,
+  lastCompletedStep,
+  loadJournal,
+  recordStep,
+  type DeploymentJournal,
+} from '../src/journal/index.js';
 import {
   createPublicClient,
   createWalletClient,
   formatEther,
+  formatGwei,
   http,
-  parseEther,
   type Address,
+  type Hex,
+  type PublicClient,
+  decodeAbiParameters,
   decodeEventLog,
+  keccak256,
+  zeroAddress,
+  type Chain,
+  type LocalAccount,
+  type Transport,
+  type WalletClient,
 } from 'viem';
-import { sanitizePrivateKey } from '@arbitrum/orbit-sdk/utils';
 
 config();
 
-const SEPOLIA_CHAIN_ID = 11155111;
-
 // RollupCreated event ABI
 const ROLLUP_CREATED_EVENT_ABI = [
   {
@@ -47,32 +106,411 @@ const ROLLUP_CREATED_EVENT_ABI = [
   },
 ] as const;
 
-async function main(): Promise<DeploymentInfo> {
-  console.log('🚀 Deploying Arbitrum Orbit Rollup on Sepolia\n');
+interface BuildNodeConfigParams {
+  chainName: string;
+  rollupConfig: CreateRollupPrepareDeploymentParamsConfigResult;
+  coreContracts: CoreContracts;
+  parentChainInfo: ParentChainInfo;
+  batchPoster: NodeSigner;
+  validator: NodeSigner;
+  daMode: DaMode;
+  daProvider: DeploymentManifest['daProvider'];
+  dasServerUrl?: string;
+}
+
+function buildNodeConfig({
+  chainName,
+  rollupConfig,
+  coreContracts,
+  parentChainInfo,
+  batchPoster,
+  validator,
+  daMode,
+  daProvider,
+  dasServerUrl,
+}: BuildNodeConfigParams): CelestiaNodeConfig {
+  return prepareChainNodeConfig({
+    chainName,
+    chainConfig: JSON.parse(rollupConfig.chainConfig),
+    coreContracts,
+    batchPoster,
+    validator,
+    parentChainInfo,
+    parentChainRpcUrl: process.env.PARENT_CHAIN_RPC!,
+    parentChainBeaconRpcUrl: process.env.PARENT_CHAIN_RPC!,
+    daMode,
+    daProvider,
+    dasServerUrl,
+  });
+}
+
+function getRollupParameters(rollupConfig: CreateRollupPrepareDeploymentParamsConfigResult): RollupParameters {
+  const chainConfig = JSON.parse(rollupConfig.chainConfig);
+  return {
+    owner: rollupConfig.owner,
+    confirmPeriodBlocks: Number(rollupConfig.confirmPeriodBlocks),
+    extraChallengeTimeBlocks: Number(rollupConfig.extraChallengeTimeBlocks),
+    baseStake: rollupConfig.baseStake.toString(),
+    stakeToken: rollupConfig.stakeToken,
+    loserStakeEscrow: rollupConfig.loserStakeEscrow,
+    wasmModuleRoot: rollupConfig.wasmModuleRoot,
+    initialArbOSVersion: chainConfig.arbitrum.InitialArbOSVersion,
+    dataAvailabilityCommittee: chainConfig.arbitrum.DataAvailabilityCommittee,
+  };
+}
+
+// Replaces private keys with a marker so dry-run output can be shared for review
+function redactPrivateKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactPrivateKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        key === 'private-key' ? '<redacted>' : redactPrivateKeys(entry),
+      ])
+    );
+  }
+  return value;
+}
+
+function stringifyWithBigInt(value: unknown): string {
+  return JSON.stringify(value, (_, entry) => (typeof entry === 'bigint' ? entry.toString() : entry), 2);
+}
+
+interface SimulateDeploymentParams {
+  publicClient: PublicClient;
+  deployer: Address;
+  txRequest: { to: Address; data?: Hex; value?: bigint };
+  rollupConfig: CreateRollupPrepareDeploymentParamsConfigResult;
+  chainName: string;
+  nativeToken: Address;
+  parentChainInfo: ParentChainInfo;
+  nodeSigners: { batchPoster: NodeSigner; validator: NodeSigner };
+  daMode: DaMode;
+  daProvider: DeploymentManifest['daProvider'];
+  dasServerUrl?: string;
+  balance: bigint;
+}
+
+// Runs the prepared createRollup call through eth_call and estimateGas and
+// prints everything the real deployment would do, without broadcasting
+async function simulateDeployment({
+  publicClient,
+  deployer,
+  txRequest,
+  rollupConfig,
+  chainName,
+  nativeToken,
+  parentChainInfo,
+  nodeSigners,
+  daMode,
+  daProvider,
+  dasServerUrl,
+  balance,
+}: SimulateDeploymentParams): Promise<void> {
+  const currency = parentChainInfo.chain.nativeCurrency.symbol;
+  const value = txRequest.value ?? BigInt(0);
+  const call = { account: deployer, to: txRequest.to, data: txRequest.data, value };
+
+  console.log('🧪 Dry run: simulating deployment (nothing will be broadcast)\n');
+
+  const { data: returnData } = await publicClient.call(call);
+  const [predictedRollup] = returnData
+    ? decodeAbiParameters([{ type: 'address' }], returnData)
+    : [undefined];
+
+  const gas = await publicClient.estimateGas(call);
+  const gasPrice = await publicClient.getGasPrice();
+  const totalCost = gas * gasPrice + value;
+
+  console.log('═══════════════════════════════════════════════');
+  console.log('Rollup Configuration:');
+  console.log('═══════════════════════════════════════════════');
+  console.log(`  Owner: ${rollupConfig.owner}`);
+  console.log(`  Wasm Module Root: ${rollupConfig.wasmModuleRoot}`);
+  console.log(`  DA Mode: ${daMode}`);
+  console.log(`  Stake Token: ${rollupConfig.stakeToken}`);
+  console.log(`  Base Stake: ${rollupConfig.baseStake}`);
+  console.log(`  Confirm Period Blocks: ${rollupConfig.confirmPeriodBlocks}`);
+  console.log(`  Extra Challenge Time Blocks: ${rollupConfig.extraChallengeTimeBlocks}`);
+  console.log(`  Loser Stake Escrow: ${rollupConfig.loserStakeEscrow}`);
+  console.log('  Sequencer Inbox Max Time Variation:');
+  console.log(stringifyWithBigInt(rollupConfig.sequencerInboxMaxTimeVariation).replace(/^/gm, '    '));
+  console.log('  Chain Config:');
+  console.log(JSON.stringify(JSON.parse(rollupConfig.chainConfig), null, 2).replace(/^/gm, '    '));
+  console.log();
+
+  console.log('═══════════════════════════════════════════════');
+  console.log('Simulation Result:');
+  console.log('═══════════════════════════════════════════════');
+  console.log(`  eth_call: ✅ succeeded`);
+  if (predictedRollup) {
+    console.log(`  Predicted Rollup Address: ${predictedRollup}`);
+  }
+  console.log(`  Estimated Gas: ${gas}`);
+  console.log(`  Gas Price: ${formatGwei(gasPrice)} gwei`);
+  console.log(`  Value: ${formatEther(value)} ${currency}`);
+  console.log(`  Estimated Total Cost: ${formatEther(totalCost)} ${currency}`);
+  console.log(`  Deployer Balance: ${formatEther(balance)} ${currency}`);
+  if (balance < totalCost) {
+    console.log(`  ⚠️  Balance does not cover the estimated cost`);
+  }
+  console.log();
+
+  // Only the rollup address can be predicted; the rest of the core contracts
+  // are left as the zero address in the preview
+  const previewContracts: CoreContracts = {
+    rollup: predictedRollup ?? zeroAddress,
+    nativeToken,
+    inbox: zeroAddress,
+    outbox: zeroAddress,
+    rollupEventInbox: zeroAddress,
+    challengeManager: zeroAddress,
+    adminProxy: zeroAddress,
+    sequencerInbox: zeroAddress,
+    bridge: zeroAddress,
+    upgradeExecutor: zeroAddress,
+    validatorUtils: zeroAddress,
+    validatorWalletCreator: zeroAddress,
+    deployedAtBlockNumber: 0,
+  };
+
+  const nodeConfig = buildNodeConfig({
+    chainName,
+    rollupConfig,
+    coreContracts: previewContracts,
+    parentChainInfo,
+    ...nodeSigners,
+    daMode,
+    daProvider,
+    dasServerUrl,
+  });
+
+  console.log('═══════════════════════════════════════════════');
+  console.log('Node Configuration Preview (private keys redacted):');
+  console.log('═══════════════════════════════════════════════');
+  console.log(JSON.stringify(redactPrivateKeys(nodeConfig), null, 2));
+  console.log();
+
+  console.log('✅ Dry run complete. Run without --dry-run to deploy.\n');
+}
+
+interface EnsureFeeTokenAllowanceParams {
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain, LocalAccount<string>>;
+  token: NativeTokenInfo;
+  maxFeePerGasForRetryables: bigint;
+  rollupCreator?: Address;
+  dryRun: boolean;
+}
+
+// A custom gas token chain pays the createRollup retryables in the fee token,
+// pulled from the deployer by the RollupCreator. Checks the deployer holds
+// enough and approves the RollupCreator if needed. Returns false only for a dry
+// run that can't be simulated because the approval is missing.
+async function ensureFeeTokenAllowance({
+  publicClient,
+  walletClient,
+  token,
+  maxFeePerGasForRetryables,
+  rollupCreator,
+  dryRun,
+}: EnsureFeeTokenAllowanceParams): Promise<boolean> {
+  const account = walletClient.account;
+  const nativeToken = token.address as Address;
+
+  console.log(`🪙 Checking ${token.symbol} for createRollup fees...`);
+
+  const fees = await createRollupGetRetryablesFeesWithDefaults(publicClient, {
+    account: account.address,
+    nativeToken,
+    maxFeePerGasForRetryables,
+  });
+  const required = scaleFrom18DecimalsToNativeTokenDecimals({ amount: fees, decimals: token.decimals });
+  const balance = await fetchFeeTokenBalance(publicClient, nativeToken, account.address);
+
+  console.log(`  Required: ${formatTokenAmount(required, token)}`);
+  console.log(`  Balance: ${formatTokenAmount(balance, token)}`);
+
+  if (balance < required) {
+    const message = `Deployer holds ${formatTokenAmount(balance, token)} but createRollup needs ${formatTokenAmount(required, token)}`;
+    if (!dryRun) {
+      throw new FeeTokenError(message);
+    }
+    console.log(`  ⚠️  ${message}`);
+  }
+
+  const enoughAllowance = await createRollupEnoughCustomFeeTokenAllowance({
+    nativeToken,
+    maxFeePerGasForRetryables,
+    account: account.address,
+    publicClient,
+    rollupCreatorAddressOverride: rollupCreator,
+  });
+
+  if (enoughAllowance) {
+    console.log('  ✅ RollupCreator allowance is sufficient\n');
+    return true;
+  }
+
+  if (dryRun) {
+    console.log('  ⚠️  RollupCreator is not approved to spend the fee token');
+    console.log('     The deployment would send an approval first; the createRollup call cannot be simulated without it.\n');
+    return false;
+  }
+
+  console.log('  Approving RollupCreator to spend the fee token...');
+  const approvalRequest = await createRollupPrepareCustomFeeTokenApprovalTransactionRequest({
+    nativeToken,
+    maxFeePerGasForRetryables,
+    account: account.address,
+    publicClient,
+    rollupCreatorAddressOverride: rollupCreator,
+  });
+  const approvalHash = await walletClient.sendRawTransaction({
+    serializedTransaction: await account.signTransaction(approvalRequest),
+  });
+  console.log(`  Approval: ${approvalHash}`);
+
+  const approvalReceipt = await publicClient.waitForTransactionReceipt({ hash: approvalHash });
+  if (approvalReceipt.status !== 'success') {
+    throw new FeeTokenError(`Fee token approval ${approvalHash} reverted`);
+  }
+  console.log('  ✅ Approval confirmed\n');
+  return true;
+}
+
+interface DeploymentTransactionParams {
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain, LocalAccount<string>>;
+  journal: DeploymentJournal;
+}
+
+// Signs the deployment transaction and journals it *before* broadcasting, so an
+// interrupted run picks up the same transaction instead of sending a second one
+async function sendDeploymentTransaction(
+  { publicClient, walletClient, journal }: DeploymentTransactionParams,
+  txRequest: { to: Address; data?: Hex; value?: bigint }
+): Promise<Hex> {
+  const account = walletClient.account;
+  const nonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+
+  recordStep(journal, 'prepared', {
+    to: txRequest.to,
+    data: txRequest.data ?? '0x',
+    value: (txRequest.value ?? BigInt(0)).toString(),
+    nonce,
+  });
+
+  const request = await walletClient.prepareTransactionRequest({
+    account,
+    chain: walletClient.chain,
+    to: txRequest.to,
+    data: txRequest.data,
+    value: txRequest.value,
+    nonce,
+  });
+  const rawTransaction = await walletClient.signTransaction(request);
+  const hash = keccak256(rawTransaction);
+
+  recordStep(journal, 'sent', { hash, nonce, rawTransaction });
+
+  await walletClient.sendRawTransaction({ serializedTransaction: rawTransaction });
+  return hash;
+}
+
+// Makes sure the journaled transaction reached the parent chain, rebroadcasting
+// it if the previous run stopped before the node accepted it
+async function resumeDeploymentTransaction({
+  publicClient,
+  walletClient,
+  journal,
+}: DeploymentTransactionParams): Promise<Hex> {
+  const { hash, nonce, rawTransaction } = journal.steps.sent!;
+
+  const known = await publicClient.getTransaction({ hash: hash as Hex }).then(
+    () => true,
+    () => false
+  );
+  if (known) {
+    return hash as Hex;
+  }
+
+  const minedNonce = await publicClient.getTransactionCount({ address: walletClient.account.address });
+  if (minedNonce > nonce) {
+    throw new Error(
+      `Journaled transaction ${hash} was never mined and nonce ${nonce} has since been used.\n` +
+        `   Run with --restart to start a new deployment.`
+    );
+  }
+
+  console.log('  Transaction not found on the parent chain, rebroadcasting...');
+  await walletClient.sendRawTransaction({ serializedTransaction: rawTransaction as Hex });
+  return hash as Hex;
+}
+
+async function main(): Promise<DeploymentInfo | null> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const restart = args.includes('--restart');
+
+  const manifestIndex = args.indexOf('--manifest');
+  const manifestPath = manifestIndex !== -1 ? args[manifestIndex + 1] : undefined;
+  // Picks the wasm module root from the bundled consensus table, like CONSENSUS_VERSION
+  const consensusIndex = args.indexOf('--consensus-version');
+  const consensusVersion = consensusIndex !== -1 ? args[consensusIndex + 1] : undefined;
+
+  console.log(`🚀 ${dryRun ? 'Simulating' : 'Deploying'} Arbitrum Orbit Rollup\n`);
   console.log('═══════════════════════════════════════════════\n');
 
   // Validate environment variables
-  if (!process.env.PRIVATE_KEY) {
-    throw new Error('PRIVATE_KEY not set in .env');
+  const deployerSource = signerSourceFromEnv('deployer');
+  if (!deployerSource) {
+    throw new SignerError('No deployer signer: set PRIVATE_KEY, DEPLOYER_KEYSTORE or DEPLOYER_REMOTE_SIGNER_URL in .env');
   }
-  if (!process.env.VALIDATOR_PRIVATE_KEY) {
-    throw new Error('VALIDATOR_PRIVATE_KEY not set in .env');
-  }
-  if (process.env.VALIDATOR_PRIVATE_KEY == process.env.PRIVATE_KEY) {
-    throw new Error('VALIDATOR_PRIVATE_KEY cannot be the same as PRIVATE_KEY or Batchposter Key!');
+  if (!signerSourceFromEnv('validator')) {
+    throw new SignerError(
+      'No validator signer: set VALIDATOR_PRIVATE_KEY, VALIDATOR_KEYSTORE or VALIDATOR_REMOTE_SIGNER_URL in .env'
+    );
   }
   if (!process.env.PARENT_CHAIN_RPC) {
     throw new Error('PARENT_CHAIN_RPC not set in .env');
   }
-  if (!process.env.WASM_ROOT) {
-    throw new Error('WASM_ROOT not set in .env');
-  }
 
-  // Setup account
-  const deployer = privateKeyToAccount(sanitizePrivateKey(process.env.PRIVATE_KEY));
+  // Load and validate the deployment manifest (env vars override manifest values)
+  const resolvedManifest = loadDeploymentManifest(manifestPath, {
+    ...process.env,
+    ...(consensusVersion && { CONSENSUS_VERSION: consensusVersion }),
+  });
+  const { manifest, sources } = resolvedManifest;
+
+  // Setup accounts; the batch poster falls back to the deployer's signer, the validator needs its own
+  const deployer = await loadSigner(deployerSource);
+  const roleSigners = await roleSignerAddresses();
+  const batchPosterSigner = roleSigners['batch-poster'] ?? deployer.address;
+  const validatorSigner = roleSigners.validator!;
+  const nodeSigners = {
+    batchPoster: await nodeSignerFromEnv('batch-poster'),
+    validator: await nodeSignerFromEnv('validator'),
+  };
+
+  // Resolve the parent chain from the registry (or the RPC for custom chains)
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: process.env.PARENT_CHAIN_RPC,
+    chainId: manifest.parentChainId,
+    isArbitrum: process.env.PARENT_CHAIN_IS_ARBITRUM === 'true',
+  });
+  registerCustomParentChainWithSdk(
+    parentChainInfo,
+    manifest.rollupCreator,
+    process.env.TOKEN_BRIDGE_CREATOR_ADDRESS
+  );
 
   // Setup parent chain clients
-  const parentChain = sepolia;
+  const parentChain = parentChainInfo.chain;
+  const parentChainId = parentChain.id;
   const parentChainPublicClient = createPublicClient({
     chain: parentChain,
     transport: http(process.env.PARENT_CHAIN_RPC),
@@ -84,123 +522,281 @@ async function main(): Promise<DeploymentInfo> {
     transport: http(process.env.PARENT_CHAIN_RPC),
   });
 
+  // Pick up an interrupted deployment of the same chain (dry runs never touch the journal)
+  let journal = dryRun ? undefined : loadJournal(manifest.chainId);
+  if (journal && restart) {
+    console.log(`📒 Archived previous journal: ${archiveJournal(journal)}\n`);
+    journal = undefined;
+  } else if (journal?.steps.confirmed?.status === 'reverted') {
+    // Nothing was deployed, so the only way forward is a new transaction
+    console.log(`📒 Previous deployment transaction reverted, archived journal: ${archiveJournal(journal)}\n`);
+    journal = undefined;
+  }
+
+  if (journal) {
+    if (journal.parentChainId !== parentChainId) {
+      throw new Error(
+        `${journalPath(journal.chainId)} belongs to a deployment on parent chain ${journal.parentChainId}, ` +
+          `not ${parentChainId}. Run with --restart to start a new deployment.`
+      );
+    }
+    if (journal.deployer.toLowerCase() !== deployer.address.toLowerCase()) {
+      throw new Error(
+        `${journalPath(journal.chainId)} was started by ${journal.deployer}, not ${deployer.address}. ` +
+          `Run with --restart to start a new deployment.`
+      );
+    }
+
+    console.log(`📒 Resuming: ${journalPath(journal.chainId)} (last step: ${lastCompletedStep(journal) ?? 'none'})\n`);
+
+    if (journal.steps['node-config-written'] && journal.steps.parsed) {
+      console.log('✅ This deployment already completed.');
+      console.log(`  Deployment info: ${journal.steps.parsed.deploymentFile}`);
+      console.log(`  Node config: ${journal.steps['node-config-written'].nodeConfigFile}`);
+      console.log('  Run with --restart to deploy a new rollup.\n');
+      return loadDeploymentInfo(journal.steps.parsed.deploymentFile);
+    }
+  }
+
+  // Refuse to deploy on anything preflight finds wrong (npm run preflight runs the same checks)
+  const preflightChecks = await runPreflightChecks({
+    resolved: resolvedManifest,
+    publicClient: parentChainPublicClient,
+    parentChainInfo,
+    signers: roleSigners,
+    // A deployment interrupted after its file was written is resumed, not a collision
+    resumedDeploymentFile: journal?.steps.parsed?.deploymentFile,
+  });
+  printReport('Preflight', preflightChecks);
+  if (hasFailures(preflightChecks)) {
+    throw new PreflightError('Preflight checks failed; fix the failures above before deploying');
+  }
+
   console.log('📋 Deployment Configuration:');
-  console.log(`  Deployer: ${deployer.address}`);
+  if (manifestPath) {
+    console.log(`  Manifest: ${manifestPath}`);
+  }
+  console.log(`  Parent Chain: ${parentChain.name} (${parentChainId})${parentChainInfo.isCustom ? ' [custom]' : ''}`);
+  console.log(`  Deployer: ${deployer.address} (${describeSignerSource(deployerSource)})`);
 
   // Get balance
   const balance = await parentChainPublicClient.getBalance({
     address: deployer.address,
   });
-  console.log(`  Balance: ${formatEther(balance)} ETH`);
+  const currency = parentChain.nativeCurrency.symbol;
+  console.log(`  Balance: ${formatEther(balance)} ${currency}`);
+
+  // Same threshold as check-funding: createRollup at the current gas price, with headroom
+  const requiredBalance = fundingThreshold('deployer', {
+    gasPrice: await parentChainPublicClient.getGasPrice(),
+    maxDataSize: manifest.maxDataSize,
+    daMode: manifest.daMode,
+    fallbackToEthereum: manifest.daProvider.fallbackToEthereum,
+    runwayHours: DEFAULT_RUNWAY_HOURS,
+  });
 
-  if (balance < parseEther('0.5')) {
+  // Once the transaction is signed the deployment has already been paid for
+  if (balance < requiredBalance && !dryRun && !journal?.steps.sent) {
     console.error('\n❌ Insufficient balance!');
-    console.error('You need at least 0.5 Sepolia ETH for deployment.');
-    console.error('Get test ETH from: https://sepoliafaucet.com/');
+    console.error(`You need at least ${formatEther(requiredBalance)} ${currency} on ${parentChain.name} for deployment.`);
+    console.error('Run npm run check-funding to see what every account needs.');
+    if (parentChainInfo.faucetUrl) {
+      console.error(`Get test ETH from: ${parentChainInfo.faucetUrl}`);
+    }
     process.exit(1);
   }
 
-  // Parse configuration
-  const chainId = parseInt(process.env.CHAIN_ID || '412346', 10);
-  const chainName = process.env.CHAIN_NAME || 'My Orbit Chain';
-  const parentChainId = parseInt(
-    process.env.PARENT_CHAIN_ID || String(SEPOLIA_CHAIN_ID),
-    10
-  );
-
-  // Ensure validators is always a non-empty array
-  const validators = process.env.VALIDATOR_ADDRESSES
-    ? process.env.VALIDATOR_ADDRESSES.split(',').map(addr => addr.trim() as Address)
-    : [deployer.address];
+  // Resolved configuration (validators and batch poster default to the accounts their nodes sign as)
+  const { chainId, chainName, nativeToken, wasmModuleRoot, rollup } = manifest;
+  const validators = manifest.validators ?? [validatorSigner];
+  const batchPoster = manifest.batchPoster ?? batchPosterSigner;
+  const owner = rollup.owner ?? deployer.address;
 
-  // Ensure validators array is valid
-  if (!validators || validators.length === 0) {
-    throw new Error('At least one validator address is required');
+  console.log(`  Chain ID: ${chainId} (${sources.chainId})`);
+  console.log(`  Chain Name: ${chainName} (${sources.chainName})`);
+  console.log(`  Validators: ${validators.join(', ')}`);
+  console.log(`  Batch Poster: ${batchPoster}`);
+  console.log(`  Owner: ${owner}${owner === deployer.address ? ' (deployer)' : ''}`);
+
+  // Custom gas tokens are validated up front so a bad address fails before anything is sent
+  const nativeTokenInfo = isCustomFeeToken(nativeToken)
+    ? await fetchFeeTokenInfo(parentChainPublicClient, nativeToken)
+    : undefined;
+
+  if (nativeTokenInfo) {
+    console.log(`  Native Token: ${nativeTokenInfo.name} (${nativeTokenInfo.symbol}) ${nativeToken}`);
+    console.log(`  Native Token Decimals: ${nativeTokenInfo.decimals}`);
+    if (nativeTokenInfo.decimals !== STANDARD_FEE_TOKEN_DECIMALS) {
+      console.log(`  ⚠️  Fee tokens without ${STANDARD_FEE_TOKEN_DECIMALS} decimals need a nitro-contracts v2+ RollupCreator`);
+    }
+  } else {
+    console.log('  Native Token: ETH');
   }
 
-  const batchPoster = (process.env.BATCH_POSTER_ADDRESS || deployer.address) as Address;
-  const nativeToken = (process.env.NATIVE_TOKEN_ADDRESS ||
-    '0x0000000000000000000000000000000000000000') as Address;
+  const consensusRelease = consensusReleaseByWasmModuleRoot(wasmModuleRoot);
+  console.log(
+    `  Wasm Module Root: ${wasmModuleRoot} (${consensusRelease ? `consensus ${consensusRelease.version}` : 'not in the consensus table'}, ${sources.wasmModuleRoot})`
+  );
 
-  console.log(`  Chain ID: ${chainId}`);
-  console.log(`  Chain Name: ${chainName}`);
-  console.log(`  Parent Chain ID: ${parentChainId}`);
-  console.log(`  Validators: ${validators.join(', ')}`);
-  console.log(`  Batch Poster: ${batchPoster}`);
-  console.log(`  Native Token: ${nativeToken === '0x0000000000000000000000000000000000000000' ? 'ETH' : nativeToken}`);
+  const { daMode } = manifest;
+  console.log(`  DA Mode: ${daMode} (${sources.daMode ?? 'default'})`);
+  if (daMode === 'celestia') {
+    console.log(`  Fallback to Ethereum DA: ${manifest.daProvider.fallbackToEthereum ? 'yes' : 'no'}`);
+  }
+
+  // Recorded so generate-docker-compose and later tools post to the same namespace
+  const celestiaNamespace = daMode === 'celestia' ? manifest.celestiaNamespace ?? deriveNamespace(chainId) : undefined;
+  if (celestiaNamespace) {
+    console.log(
+      `  Celestia Namespace: ${formatNamespace(celestiaNamespace)} (${sources.celestiaNamespace ?? 'derived from chain ID'})`
+    );
+  }
   console.log();
 
   // Create rollup configuration
   console.log('⚙️  Preparing rollup configuration...');
 
-  // Ensure WASM_ROOT is properly formatted
-  const wasmModuleRoot = process.env.WASM_ROOT.startsWith('0x')
-    ? process.env.WASM_ROOT
-    : `0x${process.env.WASM_ROOT}`;
-
   const rollupConfig = await createRollupPrepareDeploymentParamsConfig(
     parentChainPublicClient,
     {
       chainId: BigInt(chainId),
-      owner: deployer.address,
-      wasmModuleRoot: wasmModuleRoot as `0x${string}`,
+      owner,
+      wasmModuleRoot,
+      // The SDK only has block-time based defaults for the parent chains it knows
+      ...(parentChainInfo.isCustom && {
+        confirmPeriodBlocks: CUSTOM_PARENT_CHAIN_DEFAULTS.confirmPeriodBlocks,
+        sequencerInboxMaxTimeVariation: CUSTOM_PARENT_CHAIN_DEFAULTS.sequencerInboxMaxTimeVariation,
+      }),
+      // Values from the manifest override the SDK defaults
+      ...(rollup.confirmPeriodBlocks !== undefined && { confirmPeriodBlocks: BigInt(rollup.confirmPeriodBlocks) }),
+      ...(rollup.extraChallengeTimeBlocks !== undefined && {
+        extraChallengeTimeBlocks: BigInt(rollup.extraChallengeTimeBlocks),
+      }),
+      ...(rollup.baseStake !== undefined && { baseStake: rollup.baseStake }),
+      ...(rollup.stakeToken && { stakeToken: rollup.stakeToken }),
+      ...(rollup.loserStakeEscrow && { loserStakeEscrow: rollup.loserStakeEscrow }),
       chainConfig: prepareChainConfig({
         chainId,
         arbitrum: {
-          InitialChainOwner: deployer.address,
-          DataAvailabilityCommittee: true
+          InitialChainOwner: owner,
+          DataAvailabilityCommittee: rollup.dataAvailabilityCommittee,
+          ...(rollup.initialArbOSVersion !== undefined && { InitialArbOSVersion: rollup.initialArbOSVersion }),
         },
       }),
     }
   );
 
-  console.log('✅ Configuration prepared\n');
+  const rollupParameters = getRollupParameters(rollupConfig);
 
-  // Prepare deployment transaction
-  console.log('📝 Preparing deployment transaction...');
-
-  // Add rollupCreatorAddressOverride if provided
-  if (process.env.ROLLUP_CREATOR_ADDRESS) {
-    console.log(`  Using custom RollupCreator: ${process.env.ROLLUP_CREATOR_ADDRESS}`);
-  } else {
-    console.log('  ROLLUP_CREATOR_ADDRESS not set');
+  // Validators stake this token, so it has to exist before anyone can stake
+  const stakeTokenCode = await parentChainPublicClient.getBytecode({ address: rollupConfig.stakeToken });
+  if (!stakeTokenCode || stakeTokenCode === '0x') {
+    throw new Error(`Stake token ${rollupConfig.stakeToken} has no code on ${parentChain.name}`);
   }
 
-  const txRequest = await createRollupPrepareTransactionRequest({
-    params: {
-      config: rollupConfig,
-      batchPosters: [batchPoster],
-      validators: validators,
-      nativeToken: nativeToken,
-      deployFactoriesToL2: true,
-      maxDataSize: BigInt(process.env.MAX_DATA_SIZE || '117964'),
-      maxFeePerGasForRetryables: BigInt(process.env.MAX_FEE_PER_GAS || '100000000'),
-    },
-    account: deployer.address,
+  console.log('✅ Configuration prepared');
+  console.log(`  Confirm Period Blocks: ${rollupParameters.confirmPeriodBlocks} (${sources['rollup.confirmPeriodBlocks'] ?? 'SDK default'})`);
+  console.log(`  Extra Challenge Time Blocks: ${rollupParameters.extraChallengeTimeBlocks} (${sources['rollup.extraChallengeTimeBlocks'] ?? 'SDK default'})`);
+  console.log(`  Base Stake: ${rollupParameters.baseStake} (${sources['rollup.baseStake'] ?? 'SDK default'})`);
+  console.log(`  Stake Token: ${rollupParameters.stakeToken} (${sources['rollup.stakeToken'] ?? 'SDK default'})`);
+  console.log(`  Loser Stake Escrow: ${rollupParameters.loserStakeEscrow} (${sources['rollup.loserStakeEscrow'] ?? 'SDK default'})`);
+  console.log(`  Initial ArbOS Version: ${rollupParameters.initialArbOSVersion} (${sources['rollup.initialArbOSVersion'] ?? 'SDK default'})`);
+  console.log(`  Data Availability Committee: ${rollupParameters.dataAvailabilityCommittee} (${sources['rollup.dataAvailabilityCommittee']})`);
+  console.log();
+
+  const transactionParams = {
     publicClient: parentChainPublicClient,
-    rollupCreatorAddressOverride: process.env.ROLLUP_CREATOR_ADDRESS as Address
-  });
+    walletClient: parentChainWalletClient,
+  };
 
-  console.log('✅ Transaction prepared');
-  console.log(`  To: ${txRequest.to}`);
-  console.log(`  Value: ${formatEther(txRequest.value || BigInt(0))} ETH`);
-  console.log();
+  let txHash: Hex;
 
-  // Execute deployment
-  console.log('🔄 Sending deployment transaction...');
-  console.log('⚠️  This will take several minutes and cost gas\n');
+  if (journal?.steps.sent) {
+    txHash = await resumeDeploymentTransaction({ ...transactionParams, journal });
+    console.log(`🔁 Resuming deployment transaction ${txHash}`);
+  } else {
+    // Prepare deployment transaction
+    console.log('📝 Preparing deployment transaction...');
+
+    // Add rollupCreatorAddressOverride if provided
+    if (manifest.rollupCreator) {
+      console.log(`  Using custom RollupCreator: ${manifest.rollupCreator}`);
+    } else {
+      console.log('  ROLLUP_CREATOR_ADDRESS not set');
+    }
 
-  const txHash = await parentChainWalletClient.sendTransaction({
-    to: txRequest.to!,
-    data: txRequest.data,
-    value: txRequest.value,
-    chain: parentChain,
-    account: deployer,
-  });
+    // Gas estimation for createRollup reverts until the RollupCreator can pull the fee token
+    if (nativeTokenInfo) {
+      const ready = await ensureFeeTokenAllowance({
+        publicClient: parentChainPublicClient,
+        walletClient: parentChainWalletClient,
+        token: nativeTokenInfo,
+        maxFeePerGasForRetryables: manifest.maxFeePerGasForRetryables,
+        rollupCreator: manifest.rollupCreator,
+        dryRun,
+      });
+      if (!ready) {
+        return null;
+      }
+    }
+
+    const txRequest = await createRollupPrepareTransactionRequest({
+      params: {
+        config: rollupConfig,
+        batchPosters: [batchPoster],
+        validators: validators,
+        nativeToken: nativeToken,
+        deployFactoriesToL2: true,
+        maxDataSize: manifest.maxDataSize,
+        maxFeePerGasForRetryables: manifest.maxFeePerGasForRetryables,
+      },
+      account: deployer.address,
+      publicClient: parentChainPublicClient,
+      rollupCreatorAddressOverride: manifest.rollupCreator
+    });
+
+    console.log('✅ Transaction prepared');
+    console.log(`  To: ${txRequest.to}`);
+    console.log(`  Value: ${formatEther(txRequest.value || BigInt(0))} ${currency}`);
+    console.log();
+
+    if (dryRun) {
+      await simulateDeployment({
+        publicClient: parentChainPublicClient,
+        deployer: deployer.address,
+        txRequest: { to: txRequest.to!, data: txRequest.data, value: txRequest.value },
+        rollupConfig,
+        chainName,
+        nativeToken,
+        parentChainInfo,
+        nodeSigners,
+        daMode,
+        daProvider: manifest.daProvider,
+        dasServerUrl: manifest.anytrust?.dasServerUrl,
+        balance,
+      });
+      return null;
+    }
 
-  console.log(`✅ Transaction sent!`);
-  console.log(`  Hash: ${txHash}`);
-  console.log(`  Explorer: https://sepolia.etherscan.io/tx/${txHash}`);
+    // Execute deployment
+    console.log('🔄 Sending deployment transaction...');
+    console.log('⚠️  This will take several minutes and cost gas\n');
+
+    journal = journal ?? createJournal(chainId, parentChainId, deployer.address);
+    txHash = await sendDeploymentTransaction(
+      { ...transactionParams, journal },
+      { to: txRequest.to!, data: txRequest.data, value: txRequest.value }
+    );
+
+    console.log(`✅ Transaction sent!`);
+    console.log(`  Hash: ${txHash}`);
+    console.log(`  Journal: ${journalPath(chainId)}`);
+  }
+
+  const txExplorerUrl = explorerTxUrl(parentChain, txHash);
+  if (txExplorerUrl) {
+    console.log(`  Explorer: ${txExplorerUrl}`);
+  }
   console.log();
   console.log('⏳ Waiting for confirmation (this may take 5-10 minutes)...\n');
 
@@ -210,13 +806,26 @@ async function main(): Promise<DeploymentInfo> {
     confirmations: 1,
   });
 
+  if (!journal.steps.confirmed) {
+    recordStep(journal, 'confirmed', { blockNumber: Number(receipt.blockNumber), status: receipt.status });
+  }
+
+  // Nothing was created, so there is no deployment file or node config to write
+  if (receipt.status !== 'success') {
+    throw new Error(
+      `Deployment transaction ${txHash} reverted in block ${receipt.blockNumber}; nothing was deployed.\n` +
+        `   Diagnose it with: npm run debug -- --tx ${txHash}\n` +
+        `   The next run archives the journal and sends a new transaction.`
+    );
+  }
+
   console.log('🎉 Deployment successful!\n');
   console.log('═══════════════════════════════════════════════');
   console.log('Transaction Details:');
   console.log('═══════════════════════════════════════════════');
   console.log(`  Block: ${receipt.blockNumber}`);
   console.log(`  Gas Used: ${receipt.gasUsed.toString()}`);
-  console.log(`  Status: ${receipt.status === 'success' ? '✅ Success' : '❌ Failed'}`);
+  console.log('  Status: ✅ Success');
   console.log();
 
   // Parse events to get deployed addresses
@@ -253,6 +862,10 @@ async function main(): Promise<DeploymentInfo> {
         console.log(`  Outbox: ${coreContracts.outbox}`);
         console.log(`  SequencerInbox: ${coreContracts.sequencerInbox}`);
         console.log(`  Bridge: ${coreContracts.bridge}`);
+        console.log(`  RollupEventInbox: ${coreContracts.rollupEventInbox}`);
+        console.log(`  ChallengeManager: ${coreContracts.challengeManager}`);
+        console.log(`  UpgradeExecutor: ${coreContracts.upgradeExecutor}`);
+        console.log(`  AdminProxy: ${coreContracts.adminProxy}`);
         console.log();
         break;
       }
@@ -266,124 +879,92 @@ async function main(): Promise<DeploymentInfo> {
     console.log('   Run npm run parse-deployment to extract addresses manually\n');
   }
 
-  // Create deployment info object (ONLY ONCE!)
-  const deploymentInfo: DeploymentInfo = {
-    chainId,
-    chainName,
-    parentChain: 'sepolia',
-    parentChainId,
-    deployer: deployer.address,
-    deployedAt: new Date().toISOString(),
-    transactionHash: txHash,
-    blockNumber: Number(receipt.blockNumber),
-    validators,
-    batchPoster,
-    nativeToken,
-    contracts: coreContracts || {},
-  };
-
-  console.log('═══════════════════════════════════════════════');
-  console.log('Deployment Summary:');
-  console.log('═══════════════════════════════════════════════');
-  console.log(JSON.stringify(deploymentInfo, null, 2));
-  console.log();
+  let deploymentInfo: DeploymentInfo;
 
-  // Save deployment info
-  const filename = `deployments/deployment-${chainId}-${Date.now()}.json`;
-  writeFileSync(filename, JSON.stringify(deploymentInfo, null, 2));
-  console.log(`💾 Deployment info saved to: ${filename}\n`);
+  if (journal.steps.parsed) {
+    // Already saved by the interrupted run; writing it again would leave two files for one rollup
+    deploymentInfo = loadDeploymentInfo(journal.steps.parsed.deploymentFile);
+    console.log(`💾 Using deployment info from: ${journal.steps.parsed.deploymentFile}\n`);
+  } else {
+    // Create deployment info object (ONLY ONCE!)
+    deploymentInfo = {
+      version: DEPLOYMENT_INFO_VERSION,
+      chainId,
+      chainName,
+      parentChain: parentChainInfo.name,
+      parentChainId,
+      deployer: deployer.address,
+      deployedAt: new Date().toISOString(),
+      transactionHash: txHash,
+      blockNumber: Number(receipt.blockNumber),
+      validators,
+      batchPoster,
+      nativeToken,
+      ...(nativeTokenInfo && { nativeTokenInfo }),
+      rollupParameters,
+      daMode,
+      ...(celestiaNamespace && { celestiaNamespace }),
+      contracts: coreContracts || {},
+    };
+
+    console.log('═══════════════════════════════════════════════');
+    console.log('Deployment Summary:');
+    console.log('═══════════════════════════════════════════════');
+    console.log(JSON.stringify(deploymentInfo, null, 2));
+    console.log();
+
+    // Save deployment info
+    const filename = `deployments/deployment-${chainId}-${Date.now()}.json`;
+    writeFileSync(filename, JSON.stringify(deploymentInfo, null, 2));
+    recordStep(journal, 'parsed', { deploymentFile: filename });
+    console.log(`💾 Deployment info saved to: ${filename}\n`);
+  }
 
   // Generate node config if contracts were parsed successfully
   if (coreContracts) {
     console.log('⚙️  Generating node configuration...\n');
 
     try {
-      // Parse the chain config from rollupConfig
-      const chainConfig = JSON.parse(rollupConfig.chainConfig);
-
-      // Prepare node config
-      // Note: prepareNodeConfig has strict type checking for parentChainId
-      // Use parentChain.id (11155111 for Sepolia) for type safety, then override
-      const nodeConfig = prepareNodeConfig({
-        chainName: chainName,
-        chainConfig: chainConfig,
-        coreContracts: coreContracts,
-        batchPosterPrivateKey: process.env.BATCH_POSTER_PRIVATE_KEY || process.env.PRIVATE_KEY!,
-        validatorPrivateKey: process.env.VALIDATOR_PRIVATE_KEY || process.env.PRIVATE_KEY!,
-        stakeToken: rollupConfig.stakeToken,
-        parentChainId: parentChain.id, // Use the chain's ID for type safety
-        parentChainRpcUrl: process.env.PARENT_CHAIN_RPC!,
-        parentChainBeaconRpcUrl: process.env.PARENT_CHAIN_RPC!,
-      });
-
-      // Override with user's custom parent chain ID if different
-      if (parentChainId !== parentChain.id) {
-        console.log(`📝 Overriding parent chain ID: ${parentChain.id} → ${parentChainId}\n`);
-        (nodeConfig as any)['parent-chain'] = {
-          ...(nodeConfig as any)['parent-chain'],
-          connection: {
-            ...(nodeConfig as any)['parent-chain']?.connection,
-            url: process.env.PARENT_CHAIN_RPC!,
-          },
-          id: parentChainId,
-        };
-      }
-
-      // Add DA provider config if enabled
-      const daProviderUrl = process.env.DA_PROVIDER_URL || 'http://celestia-server:26657';
-
-      console.log(`📡 Adding DA Provider configuration...`);
-      console.log(`   URL: ${daProviderUrl}\n`);
-
-      // Add da-provider to the node config (cast to any to add custom property)
-      const nodeConfigWithDA = nodeConfig as any;
-
-      if (!nodeConfigWithDA.node) {
-        nodeConfigWithDA.node = {};
+      if (daMode === 'celestia') {
+        console.log(`📡 Adding DA Provider configuration...`);
+        console.log(`   URL: ${manifest.daProvider.url}\n`);
       }
 
-      nodeConfigWithDA.node['da-provider'] = {
-        enable: true,
-        'with-writer': true,
-        rpc: {
-          url: daProviderUrl,
-          retries: parseInt(process.env.DA_PROVIDER_RETRIES || '3', 10),
-          'retry-errors': process.env.DA_PROVIDER_RETRY_ERRORS ||
-            'websocket: close.*|dial tcp .*|.*i/o timeout|.*connection reset by peer|.*connection refused',
-          'arg-log-limit': parseInt(process.env.DA_PROVIDER_ARG_LOG_LIMIT || '2048', 10),
-          'websocket-message-size-limit': parseInt(
-            process.env.DA_PROVIDER_WS_MESSAGE_SIZE_LIMIT || String(256 * 1024 * 1024),
-            10
-          ),
-        },
-      };
-
-      // set data availability to false to avoid issues with nitro binary
-      nodeConfigWithDA.node['data-availability'].enable = false
-
-      // disable blob reader
-      nodeConfigWithDA.node['dangerous']['disable-blob-reader'] = true
-
+      const nodeConfig = buildNodeConfig({
+        chainName,
+        rollupConfig,
+        coreContracts,
+        parentChainInfo,
+        ...nodeSigners,
+        daMode,
+        daProvider: manifest.daProvider,
+        dasServerUrl: manifest.anytrust?.dasServerUrl,
+      });
 
-      // Save node config
+      // Save node config; it holds the batch poster and validator keys, so only the owner may read it
       const nodeConfigFile = `config/node-config-${chainId}.json`;
-      writeFileSync(nodeConfigFile, JSON.stringify(nodeConfig, null, 2));
+      writeSecretFile(nodeConfigFile, JSON.stringify(nodeConfig, null, 2));
+      recordStep(journal, 'node-config-written', { nodeConfigFile });
       console.log(`✅ Node configuration saved to: ${nodeConfigFile}\n`);
 
       console.log('Node Configuration Summary:');
       console.log('═══════════════════════════════════════════════');
       console.log(`  Chain Name: ${chainName}`);
       console.log(`  Chain ID: ${chainId}`);
-      console.log(`  Parent Chain: Sepolia (${parentChainId})`);
+      console.log(`  Parent Chain: ${parentChain.name} (${parentChainId})`);
       console.log(`  Rollup Address: ${coreContracts.rollup}`);
-      if (process.env.DA_PROVIDER_ENABLE === 'true') {
-        console.log(`  DA Provider: ${process.env.DA_PROVIDER_URL || 'http://celestia-server:26657'}`);
+      console.log(`  DA Mode: ${daMode}`);
+      if (daMode === 'celestia') {
+        console.log(`  DA Provider: ${manifest.daProvider.url}`);
       }
       console.log('═══════════════════════════════════════════════\n');
 
       console.log('💡 To run your node:');
       console.log(`   Use the config file: ${nodeConfigFile}`);
       console.log('   With Nitro node software\n');
+      if (daMode === 'anytrust') {
+        console.log('⚠️  AnyTrust chains need their DAC keyset set on the sequencer inbox before batches are accepted\n');
+      }
 
     } catch (error: any) {
       console.error('⚠️  Failed to generate node config:', error.message);
@@ -407,6 +988,15 @@ async function main(): Promise<DeploymentInfo> {
 main()
   .then(() => process.exit(0))
   .catch((error) => {
-    console.error('\n❌ Deployment failed:', error);
+    if (
+      error instanceof ManifestValidationError ||
+      error instanceof FeeTokenError ||
+      error instanceof SignerError ||
+      error instanceof PreflightError
+    ) {
+      console.error(`\n❌ ${error.message}`);
+    } else {
+      console.error('\n❌ Deployment failed:', error);
+    }
     process.exit(1);
   });
\ No newline at end of file
@@ -0,0 +1,120 @@
+import {
+  DeploymentSelectionError,
+  findDeployment,
+  listDeployments,
+  parseDeploymentSelector,
+  resolveDeployment,
+  type DeploymentRecord,
+} from '../src/deployments/index.js';
+import { formatNamespace } from '../src/namespace/index.js';
+
+function printUsage(): void {
+  console.log(`
+Usage: tsx scripts/deployments.ts <command> [options]
+
+Lists and looks up the deployments recorded in deployments/.
+
+Commands:
+  list                 List every deployment file, oldest first
+  show <chain>         Show the latest deployment for a chain ID or chain name
+
+Options:
+  --chain-id <id>      (show) Select by chain ID
+  --chain <name>       (show) Select by chain name
+  --file <path>        (show) Select a specific deployment file
+  --json               Print JSON instead of a table
+  --help, -h           Show this help message
+`);
+}
+
+function printList(records: DeploymentRecord[]): void {
+  console.log('📚 Deployments\n');
+  console.log(
+    `${'Chain ID'.padEnd(12)} ${'Name'.padEnd(24)} ${'Parent'.padEnd(20)} ${'Deployed At'.padEnd(26)} File`
+  );
+  console.log('═'.repeat(110));
+  for (const { file, info } of records) {
+    const parent = `${info.parentChain} (${info.parentChainId})`;
+    console.log(
+      `${String(info.chainId).padEnd(12)} ${info.chainName.padEnd(24)} ${parent.padEnd(20)} ${info.deployedAt.padEnd(26)} ${file}`
+    );
+  }
+  console.log();
+}
+
+function printRecord({ file, info }: DeploymentRecord): void {
+  console.log(`📦 ${info.chainName} (${info.chainId})\n`);
+  console.log(`  File: ${file}`);
+  console.log(`  Parent Chain: ${info.parentChain} (${info.parentChainId})`);
+  console.log(`  Deployed At: ${info.deployedAt}`);
+  console.log(`  Transaction: ${info.transactionHash}`);
+  console.log(`  Block: ${info.blockNumber}`);
+  console.log(`  Deployer: ${info.deployer}`);
+  console.log(`  Batch Poster: ${info.batchPoster}`);
+  console.log(`  Validators: ${info.validators.join(', ')}`);
+  if (info.celestiaNamespace) {
+    console.log(`  Celestia Namespace: ${formatNamespace(info.celestiaNamespace)}`);
+  }
+  console.log('\nContracts:');
+  for (const [name, address] of Object.entries(info.contracts)) {
+    console.log(`  ${name.padEnd(24)} ${address}`);
+  }
+  console.log();
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const [command, target] = args;
+  const json = args.includes('--json');
+
+  if (!command || args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    return;
+  }
+
+  if (command === 'list') {
+    const records = listDeployments(undefined, (file, error) => {
+      console.error(`⚠️  Skipping ${file}: ${error.message}`);
+    });
+    if (json) {
+      console.log(JSON.stringify(records, null, 2));
+    } else if (records.length === 0) {
+      console.log('No deployments found. Run npm run deploy first.');
+    } else {
+      printList(records);
+    }
+    return;
+  }
+
+  if (command === 'show') {
+    let record: DeploymentRecord | undefined;
+    if (target && !target.startsWith('--')) {
+      const chain = /^\d+$/.test(target) ? Number(target) : target;
+      record = findDeployment(chain);
+      if (!record) {
+        throw new DeploymentSelectionError(`No deployment found for chain ${target}`);
+      }
+    } else {
+      record = resolveDeployment(parseDeploymentSelector(args));
+    }
+
+    if (json) {
+      console.log(JSON.stringify(record, null, 2));
+    } else {
+      printRecord(record);
+    }
+    return;
+  }
+
+  printUsage();
+  process.exit(1);
+}
+
+main().catch((error) => {
+  if (error instanceof DeploymentSelectionError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
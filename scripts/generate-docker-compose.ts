@@ -1,13 +1,74 @@
 #!/usr/bin/env tsx
 
 import fs from 'fs';
-import crypto from 'crypto';
+import path from 'path';
+import {
+    DeploymentSelectionError,
+    findDeployment,
+    hasDeploymentSelector,
+    parseDeploymentSelector,
+    resolveDeployment,
+    type DeploymentRecord,
+} from '../src/deployments/index.js';
+import {
+    formatNamespace,
+    namespaceSubId,
+    NamespaceError,
+    parseNamespace,
+    resolveChainNamespace,
+} from '../src/namespace/index.js';
+import {
+    CELESTIA_SERVER_METRICS_PORT,
+    CELESTIA_SERVER_PORTS,
+    CELESTIA_SERVER_RPC_PORT,
+    celestiaServerCommand,
+    celestiaServerSettings,
+    DEFAULT_CELESTIA_SERVER_IMAGE,
+    DEFAULT_NITRO_IMAGE,
+} from '../src/celestia-server/index.js';
+import { checkNitroImage, ConsensusVersionError } from '../src/consensus/index.js';
+import type { CelestiaNamespace } from '../src/types/index.js';
+import {
+    ComposeConflictError,
+    ComposeFileError,
+    findComposeConflicts,
+    findGeneratedComposeFiles,
+    mergeComposeFile,
+    readComposeFile,
+    serializeComposeFile,
+    COMPOSE_RESTART_POLICIES,
+    type ComposeFile,
+    type ComposeHealthcheck,
+    type ComposeResourceLimits,
+    type ComposeRestartPolicy,
+} from '../src/compose/index.js';
+import {
+    DEFAULT_GRAFANA_IMAGE,
+    DEFAULT_PROMETHEUS_IMAGE,
+    enableNodeMetrics,
+    GRAFANA_PORT,
+    hasNodeMetrics,
+    monitoringFiles,
+    PROMETHEUS_PORT,
+    type ScrapeTarget,
+} from '../src/monitoring/index.js';
+import { formatEnvFile, NITRO_ENV_PREFIX, stripNodeConfigSecrets, writeSecretFile } from '../src/secrets/index.js';
+import { nodeConfigChainId, nodeConfigDaMode, NodeConfigError } from '../src/node-config/index.js';
+import {
+    deriveRoleNodeConfig,
+    NITRO_FEED_PORT,
+    NITRO_METRICS_PORT,
+    NITRO_WS_PORT,
+    parseTopology,
+    TopologyError,
+    type NodeRole,
+    type TopologyNode,
+} from '../src/topology/index.js';
 
 interface NodeConfig {
     chain: {
         'info-json': string;
         name: string;
-        id: number;
     };
     'parent-chain': {
         connection: {
@@ -21,32 +82,12 @@ interface NodeConfig {
     node: any;
 }
 
-interface DockerComposeConfig {
-    services: {
-        'nitro-celestia-node': {
-            image: string;
-            container_name: string;
-            depends_on: string[];
-            ports: string[];
-            volumes: string[];
-            command: string[];
-        };
-        'celestia-server': {
-            image: string;
-            container_name: string;
-            entrypoint: string[];
-            ports: string[];
-            volumes?: string[];
-        };
-    };
-    volumes: {
-        'node-data': null;
-        'celestia-keys'?: null;
-    };
-}
-
 interface CelestiaOptions {
-    celestiaNamespace?: string;
+    celestiaNamespace?: CelestiaNamespace;
+    // Replace the namespace recorded in the deployment file
+    replaceNamespace?: boolean;
+    // The deployment selected on the command line; otherwise looked up by chain ID
+    deployment?: DeploymentRecord;
     celestiaRpcEndpoint?: string;
     celestiaAuthToken?: string;
     celestiaCoreNetwork?: string;
@@ -57,250 +98,577 @@ interface CelestiaOptions {
     nitroImage?: string;
     celestiaServerImage?: string;
     containerName?: string;
+    // Replace the output file instead of merging into it
+    overwrite?: boolean;
+    // Write tokens and private keys to env files here instead of into the compose file and mounted config
+    secretsDir?: string;
+    // Run sequencer, full nodes and validator as separate services
+    topology?: TopologyNode[];
+    // Added to every default host port
+    portOffset?: number;
+    // Explicit host ports by default host port, e.g. { 8547: 18547 }
+    portMap?: Record<number, number>;
+    // Don't check host ports and names against other generated compose files
+    skipConflictCheck?: boolean;
+    // Don't check the nitro image against the consensus release the chain was created with
+    skipConsensusCheck?: boolean;
+    // Healthchecks, with depends_on waiting for healthy services (default true)
+    healthchecks?: boolean;
+    restartPolicy?: ComposeRestartPolicy;
+    // json-file log rotation
+    logMaxSize?: string;
+    logMaxFile?: number;
+    nitroLimits?: ComposeResourceLimits;
+    celestiaLimits?: ComposeResourceLimits;
+    // Enable metrics and add Prometheus and Grafana services
+    monitoring?: boolean;
+    prometheusImage?: string;
+    grafanaImage?: string;
+}
+
+interface NodeServiceSpec {
+    service: string;
+    // Undefined for the all-in-one node
+    role?: NodeRole;
+    containerName: string;
+    volume: string;
+    config: Record<string, any>;
+    configPath: string;
+    hostPortOffset: number;
+}
+
+interface MountedNode {
+    spec: NodeServiceSpec;
+    mountedConfigPath: string;
+    envFile?: string;
+    httpHostPort: number;
+}
+
+// Host ports of the nth node are shifted by n * 100 (8547, 8647, ...)
+const TOPOLOGY_HOST_PORT_STEP = 100;
+
+// Default host ports; --port-offset and --port-map are expressed in terms of these
+const NITRO_HOST_PORTS = { rpc: 8547, ws: 8548, feed: 9642, metrics: 6070 };
+// Prometheus moves off 9090, which celestia-server already publishes
+const MONITORING_HOST_PORTS = { prometheus: 9091, grafana: 3000 };
+
+const DEFAULT_RESTART_POLICY: ComposeRestartPolicy = 'unless-stopped';
+const DEFAULT_LOG_MAX_SIZE = '50m';
+const DEFAULT_LOG_MAX_FILE = 5;
+
+// Services this script generates for nodes, in any topology
+const NODE_SERVICE_PATTERN = /^(nitro-celestia-node|sequencer|full-node(-\d+)?|validator)$/;
+
+const COMPOSE_HEADER = `Docker Compose configuration for Orbit x Celestia chain
+Generated from nodeConfig.json
+
+The Nitro node reads all its configuration from the mounted config file.
+Celestia server configuration is included with all required fields.
+Regenerating merges into this file: services, volumes, networks and comments
+added by hand are kept, as are keys the generator doesn't write. Keys it
+writes are replaced, and the run lists the ones whose values differed.`;
+
+const SECRETS_HEADER = `Generated by generate-docker-compose.ts. Do not commit this file.`;
+
+// Probes an HTTP endpoint with the busybox wget the Prometheus and Grafana images ship
+function httpHealthcheck(url: string): ComposeHealthcheck {
+    return {
+        test: ['CMD', 'wget', '-q', '--spider', url],
+        interval: '15s',
+        timeout: '5s',
+        retries: 5,
+        start_period: '30s',
+    };
+}
+
+// Quotes an argument for sh -c; $VAR references are left for the container shell to expand
+function shellArgument(arg: string): string {
+    return /^\$\$[A-Z_]+$/.test(arg) ? `"${arg}"` : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+// A config path next to the original, e.g. node-config-412346.public.json
+function publicConfigPath(nodeConfigPath: string): string {
+    return nodeConfigPath.replace(/(\.json)?$/, '.public.json');
+}
+
+// Probes a JSON-RPC endpoint from inside the container; the image needs curl
+function rpcHealthcheck(port: number, method: string, startPeriod: string): ComposeHealthcheck {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] });
+    return {
+        test: ['CMD', 'curl', '-sf', '-X', 'POST', '-H', 'Content-Type: application/json', '--data', body, `http://localhost:${port}`],
+        interval: '15s',
+        timeout: '5s',
+        retries: 5,
+        start_period: startPeriod,
+    };
+}
+
+function formatLimits(limits: ComposeResourceLimits | undefined): string {
+    if (!limits) {
+        return '(none)';
+    }
+    return [limits.cpus && `${limits.cpus} CPUs`, limits.memory && `${limits.memory} memory`].filter(Boolean).join(', ');
+}
+
+// Parses --port-map entries such as 8547=18547,26657=36657
+function parsePortMap(spec: string): Record<number, number> {
+    const portMap: Record<number, number> = {};
+    for (const entry of spec.split(',').filter(Boolean)) {
+        const [from, to] = entry.split('=').map(Number);
+        if (!isValidPort(from) || !isValidPort(to)) {
+            throw new Error(`Invalid port mapping "${entry}" (expected <default host port>=<host port>)`);
+        }
+        portMap[from] = to;
+    }
+    return portMap;
+}
+
+function isValidPort(port: number): boolean {
+    return Number.isInteger(port) && port > 0 && port <= 65535;
+}
+
+// The config of one role next to the original, e.g. node-config-412346.validator.json
+function roleConfigPath(nodeConfigPath: string, service: string): string {
+    return nodeConfigPath.replace(/(\.json)?$/, `.${service}.json`);
 }
 
 function generateDockerCompose(nodeConfigPath: string, outputPath: string, options: CelestiaOptions) {
     // Read the node config
     const nodeConfigContent = fs.readFileSync(nodeConfigPath, 'utf-8');
     const nodeConfig: NodeConfig = JSON.parse(nodeConfigContent);
+    const { secretsDir } = options;
 
     // Extract chain info
-    const chainId = nodeConfig.chain.id;
+    const chainId = nodeConfigChainId(nodeConfig);
     const chainName = nodeConfig.chain.name;
 
     // Extract HTTP port from config (default to 8547 if not specified)
     const httpPort = nodeConfig.http?.port || 8547;
 
-    // Auto-generate namespace if not provided
-    let celestiaNamespace = options.celestiaNamespace;
-    let namespaceGenerated = false;
+    // Rollup and AnyTrust chains post their batches without celestia-server
+    const daMode = nodeConfigDaMode(nodeConfig);
+    const usesCelestia = daMode === 'celestia';
 
-    if (!celestiaNamespace) {
-        // Generate a deterministic namespace from chain ID
-        // Celestia namespace must be exactly 10 bytes (20 hex characters)
-        const hash = crypto.createHash('sha256').update(`orbit-${chainId}`).digest('hex');
-        celestiaNamespace = '0x' + hash.substring(0, 20); // 10 bytes = 20 hex chars
-        namespaceGenerated = true;
-    }
+    // The namespace recorded for the chain wins, so every tool posts to the same one
+    const deployment = options.deployment ?? findDeployment(chainId);
+    const chainNamespace = usesCelestia
+        ? resolveChainNamespace({
+            chainId,
+            deployment,
+            requested: options.celestiaNamespace,
+            replace: options.replaceNamespace,
+        })
+        : undefined;
 
     // Set defaults for Celestia configuration
-    const celestiaRpcEndpoint = options.celestiaRpcEndpoint || 'http://0.0.0.0:26658/';
-    const celestiaCoreNetwork = options.celestiaCoreNetwork || 'mocha-4';
-    const celestiaCoreToken = options.celestiaCoreToken || '';
-    const celestiaCoreUrl = options.celestiaCoreUrl || '';
-    const celestiaEnableCoreTls = options.celestiaEnableCoreTls !== false; // default true
-    const celestiaAuthToken = options.celestiaAuthToken || '';
+    const celestia = celestiaServerSettings({
+        rpcEndpoint: options.celestiaRpcEndpoint,
+        coreNetwork: options.celestiaCoreNetwork,
+        coreToken: options.celestiaCoreToken,
+        coreUrl: options.celestiaCoreUrl,
+        enableCoreTls: options.celestiaEnableCoreTls,
+        authToken: options.celestiaAuthToken,
+        metrics: options.monitoring,
+    });
 
     const {
-        nitroImage = 'ghcr.io/celestiaorg/nitro:v3.6.8',
-        celestiaServerImage = 'ghcr.io/celestiaorg/nitro-das-celestia:v0.6.3-mocha',
+        nitroImage = DEFAULT_NITRO_IMAGE,
+        celestiaServerImage = DEFAULT_CELESTIA_SERVER_IMAGE,
         containerName = `orbit-${nodeConfig.chain.name.toLowerCase().replace(/\s+/g, '-')}`,
     } = options;
 
-    // Build celestia server entrypoint
-    const celestiaEntrypoint = [
-        '/bin/celestia-server',
-        '--celestia.experimental-tx-client',
-        '--celestia.core-network',
-        celestiaCoreNetwork,
-    ];
-
-    // Add core token if provided
-    if (celestiaCoreToken) {
-        celestiaEntrypoint.push('--celestia.core-token');
-        celestiaEntrypoint.push(celestiaCoreToken);
-    }
-
-    // Add core URL if provided
-    if (celestiaCoreUrl) {
-        celestiaEntrypoint.push('--celestia.core-url');
-        celestiaEntrypoint.push(celestiaCoreUrl);
-    }
-
-    // Add TLS flag
-    if (celestiaEnableCoreTls) {
-        celestiaEntrypoint.push('--celestia.enable-core-tls');
-    }
-
-    // Continue with remaining required flags
-    celestiaEntrypoint.push(
-        '--celestia.with-writer',
-        '--celestia.namespace-id',
-        celestiaNamespace.startsWith('0x') ? celestiaNamespace.slice(2) : celestiaNamespace,
-        '--rpc-addr',
-        '0.0.0.0',
-        '--rpc-port',
-        '26657',
-        '--celestia.rpc',
-        celestiaRpcEndpoint,
-        '--log-level',
-        'DEBUG'
-    );
+    // Validators prove blocks with the image's replay binary, which has to be the one the chain was created with
+    const consensusCheck = options.skipConsensusCheck
+        ? undefined
+        : checkNitroImage(nitroImage, deployment?.info.rollupParameters?.wasmModuleRoot);
+    if (consensusCheck?.warning) {
+        console.warn(`⚠️  ${consensusCheck.warning}`);
+    }
+    const consensusRelease = consensusCheck?.release;
 
-    // Add auth token if provided
-    if (celestiaAuthToken) {
-        celestiaEntrypoint.push('--celestia.auth-token');
-        celestiaEntrypoint.push(celestiaAuthToken);
-    } else {
-        celestiaEntrypoint.push('--celestia.auth-token');
-        celestiaEntrypoint.push('');
-    }
-
-    // Build the Docker Compose config
-    const dockerCompose: DockerComposeConfig = {
-        services: {
-            'nitro-celestia-node': {
-                image: nitroImage,
-                container_name: containerName,
-                depends_on: ['celestia-server'],
-                ports: [
-                    `8547:${httpPort}`,
-                    '8548:8548',
-                    '9642:9642',
-                    '6070:6070',
-                ],
-                volumes: [
-                    `${nodeConfigPath}:/home/user/nodeConfig.json:ro`,
-                    'node-data:/home/user/.arbitrum/local/nitro',
-                ],
-                command: [
-                    '--conf.file',
-                    '/home/user/nodeConfig.json',
-                ],
-            },
-            'celestia-server': {
-                image: celestiaServerImage,
-                container_name: 'celestia-server',
-                entrypoint: celestiaEntrypoint,
-                ports: [
-                    '1317:1317',
-                    '9090:9090',
-                    '26657:26657',
-                    '1095:1095',
-                    '8080:8080',
-                ],
-            },
-        },
-        volumes: {
-            'node-data': null,
-        },
+    const hostPort = (defaultPort: number, nodeOffset: number = 0): number => {
+        const port = (options.portMap?.[defaultPort] ?? defaultPort + (options.portOffset ?? 0)) + nodeOffset;
+        if (!isValidPort(port)) {
+            throw new Error(`Host port ${port} (default ${defaultPort}) is out of range`);
+        }
+        return port;
     };
 
-    // Add celestia-server volumes if key path is provided
-    if (options.celestiaKeyPath) {
-        dockerCompose.services['celestia-server'].volumes = [
-            `${options.celestiaKeyPath}:/home/celestia/`,
+    const {
+        healthchecks = true,
+        restartPolicy = DEFAULT_RESTART_POLICY,
+        logMaxSize = DEFAULT_LOG_MAX_SIZE,
+        logMaxFile = DEFAULT_LOG_MAX_FILE,
+    } = options;
+
+    // Without healthchecks, dependencies can only wait for containers to start
+    const dependsOn = (services: string[]) => healthchecks
+        ? Object.fromEntries(services.map(name => [name, { condition: 'service_healthy' as const }]))
+        : services;
+
+    // A per-chain project name keeps networks and volumes of chains on one host apart
+    const projectName = containerName.toLowerCase().replace(/[^a-z0-9_-]/g, '-');
+
+    // Build celestia server entrypoint. In secrets mode tokens are read from the
+    // env file by the container shell ($$ keeps compose from interpolating them)
+    const celestiaServer = chainNamespace && celestiaServerCommand(
+        celestia,
+        chainNamespace.namespace,
+        secretsDir ? env => `$$${env}` : undefined
+    );
+
+    // Monitoring needs Nitro's metrics server, which the generated node config leaves off
+    const enableMetrics = options.monitoring === true && !hasNodeMetrics(nodeConfig);
+    const baseNodeConfig = options.monitoring ? enableNodeMetrics(nodeConfig) : nodeConfig;
+
+    // One all-in-one node, or one service per role when a topology is given
+    const nodeSpecs: NodeServiceSpec[] = options.topology
+        ? options.topology.map((node, index) => ({
+            service: node.service,
+            role: node.role,
+            containerName: `${containerName}-${node.service}`,
+            volume: `${node.service}-data`,
+            config: deriveRoleNodeConfig(baseNodeConfig, node.role, {
+                sequencerUrl: `http://sequencer:${httpPort}`,
+                sequencerFeedUrl: `ws://sequencer:${NITRO_FEED_PORT}`,
+            }),
+            configPath: roleConfigPath(nodeConfigPath, node.service),
+            hostPortOffset: index * TOPOLOGY_HOST_PORT_STEP,
+        }))
+        : [{
+            service: 'nitro-celestia-node',
+            containerName,
+            volume: 'node-data',
+            config: baseNodeConfig,
+            configPath: nodeConfigPath,
+            hostPortOffset: 0,
+        }];
+
+    const dockerCompose: ComposeFile = { name: projectName, services: {}, volumes: {} };
+    const mountedNodes: MountedNode[] = [];
+    // Written once the compose file has passed the conflict check
+    const pendingFiles: { path: string; content: string; secret: boolean }[] = [];
+
+    if (deployment && chainNamespace?.record) {
+        pendingFiles.push({
+            path: deployment.file,
+            content: JSON.stringify({ ...deployment.info, celestiaNamespace: chainNamespace.namespace }, null, 2),
+            secret: false,
+        });
+    }
+
+    if (enableMetrics) {
+        pendingFiles.push({ path: nodeConfigPath, content: JSON.stringify(baseNodeConfig, null, 2), secret: true });
+    }
+
+    for (const spec of nodeSpecs) {
+        // Mount a copy of the node config without private keys and pass the keys
+        // to Nitro through an env file instead
+        let mountedConfigPath = spec.configPath;
+        const command = ['--conf.file', '/home/user/nodeConfig.json'];
+        let envFile: string | undefined;
+
+        if (secretsDir) {
+            const stripped = stripNodeConfigSecrets(spec.config);
+            mountedConfigPath = publicConfigPath(spec.configPath);
+            pendingFiles.push({ path: mountedConfigPath, content: JSON.stringify(stripped.config, null, 2), secret: false });
+
+            envFile = `${secretsDir}/${options.topology ? spec.service : 'nitro'}.env`;
+            pendingFiles.push({ path: envFile, content: formatEnvFile(stripped.env, SECRETS_HEADER), secret: true });
+            command.push('--conf.env-prefix', NITRO_ENV_PREFIX);
+        } else if (spec.configPath !== nodeConfigPath) {
+            // Role configs of the sequencer and validator carry keys, like the original
+            pendingFiles.push({ path: spec.configPath, content: JSON.stringify(spec.config, null, 2), secret: true });
+        }
+
+        const offset = spec.hostPortOffset;
+        const dependencies = [
+            ...(celestiaServer ? ['celestia-server'] : []),
+            ...(spec.role && spec.role !== 'sequencer' ? ['sequencer'] : []),
         ];
-        dockerCompose.volumes['celestia-keys'] = null;
-    } else {
-        // Even without a key path, we should create a volume for persistence
-        dockerCompose.services['celestia-server'].volumes = [
-            'celestia-keys:/home/celestia/',
+        dockerCompose.services[spec.service] = {
+            image: nitroImage,
+            container_name: spec.containerName,
+            ...(dependencies.length > 0 && { depends_on: dependsOn(dependencies) }),
+            ports: [
+                `${hostPort(NITRO_HOST_PORTS.rpc, offset)}:${httpPort}`,
+                `${hostPort(NITRO_HOST_PORTS.ws, offset)}:${NITRO_WS_PORT}`,
+                `${hostPort(NITRO_HOST_PORTS.feed, offset)}:${NITRO_FEED_PORT}`,
+                `${hostPort(NITRO_HOST_PORTS.metrics, offset)}:${NITRO_METRICS_PORT}`,
+            ],
+            volumes: [
+                `${mountedConfigPath}:/home/user/nodeConfig.json:ro`,
+                `${spec.volume}:/home/user/.arbitrum/local/nitro`,
+            ],
+            command,
+            ...(envFile && { env_file: [envFile] }),
+        };
+        dockerCompose.volumes![spec.volume] = null;
+        mountedNodes.push({ spec, mountedConfigPath, envFile, httpHostPort: hostPort(NITRO_HOST_PORTS.rpc, offset) });
+    }
+
+    let celestiaEnvFile: string | undefined;
+    if (celestiaServer) {
+        if (secretsDir) {
+            celestiaEnvFile = `${secretsDir}/celestia-server.env`;
+            pendingFiles.push({ path: celestiaEnvFile, content: formatEnvFile(celestiaServer.secrets, SECRETS_HEADER), secret: true });
+        }
+
+        dockerCompose.services['celestia-server'] = {
+            image: celestiaServerImage,
+            container_name: `${containerName}-celestia-server`,
+            entrypoint: celestiaEnvFile
+                ? ['/bin/sh', '-c', `exec ${celestiaServer.command.map(shellArgument).join(' ')}`]
+                : celestiaServer.command,
+            ...(celestiaEnvFile && { env_file: [celestiaEnvFile] }),
+            ports: CELESTIA_SERVER_PORTS.map(port => `${hostPort(port)}:${port}`),
+        };
+
+        // Add celestia-server volumes if key path is provided
+        if (options.celestiaKeyPath) {
+            dockerCompose.services['celestia-server'].volumes = [
+                `${options.celestiaKeyPath}:/home/celestia/`,
+            ];
+            dockerCompose.volumes!['celestia-keys'] = null;
+        } else {
+            // Even without a key path, we should create a volume for persistence
+            dockerCompose.services['celestia-server'].volumes = [
+                'celestia-keys:/home/celestia/',
+            ];
+            dockerCompose.volumes!['celestia-keys'] = null;
+        }
+    }
+
+    // Prometheus scrapes every node and celestia-server; Grafana comes with the dashboard
+    const monitoringDir = path.join(path.dirname(outputPath), 'monitoring', projectName);
+    const monitoringMount = `./monitoring/${projectName}`;
+    if (options.monitoring) {
+        const targets: ScrapeTarget[] = [
+            ...nodeSpecs.map(spec => ({
+                job: 'nitro',
+                target: `${spec.service}:${NITRO_METRICS_PORT}`,
+                labels: { service: spec.service, ...(spec.role && { role: spec.role }) },
+            })),
+            ...(celestiaServer
+                ? [{ job: 'celestia-server', target: `celestia-server:${CELESTIA_SERVER_METRICS_PORT}`, labels: { service: 'celestia-server' } }]
+                : []),
         ];
-        dockerCompose.volumes['celestia-keys'] = null;
+        const files = monitoringFiles({ name: chainName, id: chainId }, targets, `http://prometheus:${PROMETHEUS_PORT}`);
+        for (const [file, content] of Object.entries(files)) {
+            pendingFiles.push({ path: path.join(monitoringDir, file), content, secret: false });
+        }
+
+        dockerCompose.services['prometheus'] = {
+            image: options.prometheusImage ?? DEFAULT_PROMETHEUS_IMAGE,
+            container_name: `${containerName}-prometheus`,
+            command: ['--config.file=/etc/prometheus/prometheus.yml', '--storage.tsdb.path=/prometheus'],
+            ports: [`${hostPort(MONITORING_HOST_PORTS.prometheus)}:${PROMETHEUS_PORT}`],
+            volumes: [
+                `${monitoringMount}/prometheus.yml:/etc/prometheus/prometheus.yml:ro`,
+                `${monitoringMount}/alerts.yml:/etc/prometheus/alerts.yml:ro`,
+                'prometheus-data:/prometheus',
+            ],
+        };
+        dockerCompose.services['grafana'] = {
+            image: options.grafanaImage ?? DEFAULT_GRAFANA_IMAGE,
+            container_name: `${containerName}-grafana`,
+            depends_on: dependsOn(['prometheus']),
+            ports: [`${hostPort(MONITORING_HOST_PORTS.grafana)}:${GRAFANA_PORT}`],
+            volumes: [
+                `${monitoringMount}/grafana/provisioning:/etc/grafana/provisioning:ro`,
+                `${monitoringMount}/grafana/dashboards:/etc/grafana/dashboards:ro`,
+                'grafana-data:/var/lib/grafana',
+            ],
+        };
+        dockerCompose.volumes!['prometheus-data'] = null;
+        dockerCompose.volumes!['grafana-data'] = null;
+    }
+
+    // Restart policy, log rotation, resource limits and healthchecks for every generated service
+    for (const [name, service] of Object.entries(dockerCompose.services)) {
+        const isCelestiaServer = name === 'celestia-server';
+        const isMonitoring = name === 'prometheus' || name === 'grafana';
+        const limits = isCelestiaServer ? options.celestiaLimits : isMonitoring ? undefined : options.nitroLimits;
+
+        service.restart = restartPolicy;
+        service.logging = {
+            driver: 'json-file',
+            options: { 'max-size': logMaxSize, 'max-file': String(logMaxFile) },
+        };
+        if (limits) {
+            service.deploy = { resources: { limits } };
+        }
+        if (healthchecks) {
+            service.healthcheck = name === 'prometheus'
+                ? httpHealthcheck(`http://localhost:${PROMETHEUS_PORT}/-/healthy`)
+                : name === 'grafana'
+                    ? httpHealthcheck(`http://localhost:${GRAFANA_PORT}/api/health`)
+                    : isCelestiaServer
+                        ? rpcHealthcheck(CELESTIA_SERVER_RPC_PORT, 'rpc_modules', '30s')
+                        : rpcHealthcheck(httpPort, 'eth_chainId', '120s');
+        }
+    }
+
+    // Merge with an existing file so local edits survive regeneration
+    const existingCompose = options.overwrite ? undefined : readComposeFile(outputPath);
+
+    // Files generated before project names were set run under the directory's
+    // project; keep it so their volumes stay attached
+    if (existingCompose && !existingCompose.name) {
+        delete dockerCompose.name;
+    }
+
+    if (!options.skipConflictCheck) {
+        // Other chains' compose files generated next to this one or in the working directory
+        const otherFiles = [...new Set([path.dirname(outputPath), '.'].map(dir => path.resolve(dir)))]
+            .flatMap(dir => findGeneratedComposeFiles(dir, COMPOSE_HEADER.split('\n')[0]))
+            .filter(file => file !== path.resolve(outputPath));
+        const others = otherFiles.flatMap(file => {
+            try {
+                const compose = readComposeFile(file);
+                return compose ? [{ file: path.relative('.', file), compose }] : [];
+            } catch (error) {
+                console.warn(`⚠️  Skipping ${file} in the conflict check: ${(error as Error).message}`);
+                return [];
+            }
+        });
+        const conflicts = findComposeConflicts(dockerCompose, others);
+        if (conflicts.length > 0) {
+            throw new ComposeConflictError(`${outputPath} would conflict with other compose files on this host`, conflicts);
+        }
+    }
+
+    for (const file of pendingFiles) {
+        if (file.secret) {
+            writeSecretFile(file.path, file.content);
+        } else {
+            fs.mkdirSync(path.dirname(file.path), { recursive: true });
+            fs.writeFileSync(file.path, file.content);
+        }
+    }
+
+    // Node services of a previous topology would otherwise survive the merge and
+    // run a second sequencer
+    const staleServices = Object.keys(existingCompose?.services ?? {}).filter(
+        name => NODE_SERVICE_PATTERN.test(name) && !(name in dockerCompose.services)
+    );
+    const merge = existingCompose
+        ? mergeComposeFile(outputPath, dockerCompose, { header: COMPOSE_HEADER, removeServices: staleServices })
+        : undefined;
+    if (merge && merge.replaced.length > 0) {
+        console.warn(`⚠️  Replacing values the generator owns that differ in ${outputPath}:`);
+        for (const key of merge.replaced) {
+            console.warn(`   - ${key}`);
+        }
+        console.warn(`   Put lasting changes to these keys in a docker-compose.override.yml\n`);
     }
 
     // Write the docker-compose.yml file
-    const yamlContent = generateYaml(dockerCompose);
-    fs.writeFileSync(outputPath, yamlContent);
+    fs.writeFileSync(outputPath, merge ? merge.text : serializeComposeFile(dockerCompose, COMPOSE_HEADER));
 
-    console.log(`✅ Docker Compose file generated successfully at: ${outputPath}`);
+    console.log(`✅ Docker Compose file ${existingCompose ? 'updated' : 'generated'} successfully at: ${outputPath}`);
+    if (existingCompose) {
+        const keptServices = Object.keys(existingCompose.services).filter(name => !(name in dockerCompose.services));
+        console.log(`   Merged with the existing file${keptServices.length > 0 ? ` (kept services: ${keptServices.join(', ')})` : ''}`);
+        if (staleServices.length > 0) {
+            console.log(`   Removed node services of the previous topology: ${staleServices.join(', ')}`);
+        }
+    }
     console.log(`\n📝 Configuration Summary:`);
     console.log(`   Chain Name: ${chainName}`);
     console.log(`   Chain ID: ${chainId}`);
-    console.log(`   Container Name: ${containerName}`);
-    console.log(`   HTTP Port: ${httpPort} (mapped to host port 8547)`);
-    console.log(`   Config File: ${nodeConfigPath} (mounted read-only)`);
-    console.log(`\n🔵 Celestia Configuration:`);
-    console.log(`   Namespace: ${celestiaNamespace}`);
-    if (namespaceGenerated) {
-        console.log(`   ℹ️  Namespace was auto-generated from chain ID`);
-    }
-    console.log(`   Core Network: ${celestiaCoreNetwork}`);
-    if (celestiaCoreToken) {
-        console.log(`   Core Token: ${celestiaCoreToken.substring(0, 20)}...`);
+    console.log(`   Nitro Image: ${nitroImage}${consensusRelease ? ` (consensus ${consensusRelease.version})` : ''}`);
+    if (dockerCompose.name) {
+        console.log(`   Project Name: ${dockerCompose.name}`);
     } else {
-        console.log(`   Core Token: (not provided)`);
+        console.log(`   Project Name: (directory name; kept from the existing file)`);
     }
-    if (celestiaCoreUrl) {
-        console.log(`   Core URL (gRPC): ${celestiaCoreUrl}`);
-    } else {
-        console.log(`   Core URL (gRPC): (not provided)`);
+    for (const { spec, mountedConfigPath, httpHostPort } of mountedNodes) {
+        if (spec.role) {
+            console.log(`\n   ${spec.service} (${spec.role}):`);
+        }
+        console.log(`   Container Name: ${spec.containerName}`);
+        console.log(`   HTTP Port: ${httpPort} (mapped to host port ${httpHostPort})`);
+        console.log(`   Config File: ${mountedConfigPath} (mounted read-only)`);
     }
-    console.log(`   Enable Core TLS: ${celestiaEnableCoreTls}`);
-    console.log(`   RPC Endpoint: ${celestiaRpcEndpoint}`);
-    if (celestiaAuthToken) {
-        console.log(`   Auth Token: ${celestiaAuthToken.substring(0, 20)}...`);
-    } else {
-        console.log(`   Auth Token: (empty)`);
+    if (secretsDir) {
+        console.log(`\n🔐 Secrets (mode 0600, keep them out of version control):`);
+        for (const { spec, envFile } of mountedNodes) {
+            console.log(`   ${spec.service}: ${envFile}`);
+        }
+        if (celestiaEnvFile) {
+            console.log(`   celestia-server: ${celestiaEnvFile}`);
+        }
+        console.log(`   Private keys were stripped from the mounted config files`);
     }
-    if (options.celestiaKeyPath) {
-        console.log(`   Key Path: ${options.celestiaKeyPath} (mounted to celestia-server)`);
-    } else {
-        console.log(`   Key Storage: Using Docker volume 'celestia-keys' for persistence`);
+    console.log(`\n🩺 Runtime:`);
+    console.log(`   Healthchecks: ${healthchecks ? `eth_chainId on Nitro${celestiaServer ? ', rpc_modules on celestia-server' : ''}; nodes wait until healthy` : 'disabled'}`);
+    console.log(`   Restart Policy: ${restartPolicy}`);
+    console.log(`   Logs: json-file, ${logMaxFile} x ${logMaxSize}`);
+    console.log(`   Nitro Limits: ${formatLimits(options.nitroLimits)}`);
+    if (celestiaServer) {
+        console.log(`   Celestia Server Limits: ${formatLimits(options.celestiaLimits)}`);
+    }
+    if (options.monitoring) {
+        console.log(`\n📈 Monitoring:`);
+        if (enableMetrics) {
+            console.log(`   Enabled metrics on port ${NITRO_METRICS_PORT} in ${nodeConfigPath}`);
+        }
+        console.log(`   Prometheus: http://localhost:${hostPort(MONITORING_HOST_PORTS.prometheus)} (scrapes ${[...nodeSpecs.map(spec => spec.service), ...(celestiaServer ? ['celestia-server'] : [])].join(', ')})`);
+        console.log(`   Grafana: http://localhost:${hostPort(MONITORING_HOST_PORTS.grafana)} (admin/admin, change it on first login)`);
+        console.log(`   Config and dashboard: ${monitoringDir}`);
     }
+    if (chainNamespace) {
+        console.log(`\n🔵 Celestia Configuration:`);
+        console.log(`   Namespace: ${formatNamespace(chainNamespace.namespace)} (${chainNamespace.source})`);
+        console.log(`   Namespace ID: ${namespaceSubId(chainNamespace.namespace)}`);
+        if (deployment && chainNamespace.record) {
+            console.log(`   ℹ️  Recorded in ${deployment.file}`);
+        }
+        console.log(`   Core Network: ${celestia.coreNetwork}`);
+        if (celestia.coreToken) {
+            console.log(`   Core Token: ${celestia.coreToken.substring(0, 20)}...`);
+        } else {
+            console.log(`   Core Token: (not provided)`);
+        }
+        if (celestia.coreUrl) {
+            console.log(`   Core URL (gRPC): ${celestia.coreUrl}`);
+        } else {
+            console.log(`   Core URL (gRPC): (not provided)`);
+        }
+        console.log(`   Enable Core TLS: ${celestia.enableCoreTls}`);
+        console.log(`   RPC Endpoint: ${celestia.rpcEndpoint}`);
+        if (celestia.authToken) {
+            console.log(`   Auth Token: ${celestia.authToken.substring(0, 20)}...`);
+        } else {
+            console.log(`   Auth Token: (empty)`);
+        }
+        if (options.celestiaKeyPath) {
+            console.log(`   Key Path: ${options.celestiaKeyPath} (mounted to celestia-server)`);
+        } else {
+            console.log(`   Key Storage: Using Docker volume 'celestia-keys' for persistence`);
+        }
 
-    if (!celestiaCoreToken || !celestiaCoreUrl) {
-        console.log(`\n⚠️  WARNING: Core Token or Core URL not provided!`);
-        console.log(`   These are required for production use.`);
-        console.log(`   You can update them in the generated docker-compose.yml file.`);
+        if (!celestia.coreToken || !celestia.coreUrl) {
+            console.log(`\n⚠️  WARNING: Core Token or Core URL not provided!`);
+            console.log(`   These are required for production use.`);
+            console.log(`   You can update them in the generated docker-compose.yml file.`);
+        }
+    } else {
+        const target = daMode === 'anytrust' ? "batch data goes to the committee's DAS" : 'batches are posted to the parent chain';
+        console.log(`\n🔵 DA Mode: ${daMode} (${target}; no celestia-server)`);
     }
 
     console.log(`\n📖 Note: The Nitro node will read all configuration from the mounted nodeConfig.json file`);
-    console.log(`   This includes: chain config, parent chain RPC, sequencer settings, keys, etc.`);
+    if (secretsDir) {
+        console.log(`   This includes: chain config, parent chain RPC, sequencer settings; keys come from the env files`);
+    } else {
+        console.log(`   This includes: chain config, parent chain RPC, sequencer settings, keys, etc.`);
+        console.log(`   ⚠️  Tokens and private keys are written in plain text; use --secrets-dir before committing these files`);
+    }
     console.log(`\n🚀 To start your node, run: docker-compose -f ${outputPath} up -d`);
 }
 
-function generateYaml(config: DockerComposeConfig): string {
-    let yaml = `# Docker Compose configuration for Orbit x Celestia chain
-# Generated from nodeConfig.json
-#
-# The Nitro node reads all its configuration from the mounted config file.
-# Celestia server configuration is included with all required fields.
-
-services:
-  nitro-celestia-node:
-    image: ${config.services['nitro-celestia-node'].image}
-    container_name: ${config.services['nitro-celestia-node'].container_name}
-    depends_on:
-${config.services['nitro-celestia-node'].depends_on.map(d => `      - ${d}`).join('\n')}
-    ports:
-${config.services['nitro-celestia-node'].ports.map(p => `      - "${p}"`).join('\n')}
-    volumes:
-${config.services['nitro-celestia-node'].volumes.map(v => `      - ${v}`).join('\n')}
-    command:
-${config.services['nitro-celestia-node'].command.map(c => `      - ${c}`).join('\n')}
-
-  celestia-server:
-    image: ${config.services['celestia-server'].image}
-    container_name: ${config.services['celestia-server'].container_name}
-    entrypoint:
-${config.services['celestia-server'].entrypoint.map(e => `      - "${e}"`).join('\n')}
-    ports:
-${config.services['celestia-server'].ports.map(p => `      - "${p}"`).join('\n')}`;
-
-    // Add volumes section for celestia-server if present
-    if (config.services['celestia-server'].volumes && config.services['celestia-server'].volumes.length > 0) {
-        yaml += `
-    volumes:
-${config.services['celestia-server'].volumes.map(v => `      - ${v}`).join('\n')}`;
-    }
-
-    yaml += `
-
-volumes:
-  node-data:`;
-
-    // Add celestia-keys volume if present
-    if (config.volumes['celestia-keys'] !== undefined) {
-        yaml += `
-  celestia-keys:`;
-    }
-
-    yaml += '\n';
-    return yaml;
-}
-
 // CLI interface
 function main() {
     const args = process.argv.slice(2);
@@ -313,7 +681,10 @@ This script generates a docker-compose.yml that mounts your nodeConfig.json file
 The Nitro node will read all its configuration from the mounted config file using
 the --conf.file flag, making setup much simpler.
 
-The script automatically detects your config file:
+With --chain-id, --chain or --file, the config is taken from the selected
+deployment: ./config/node-config-{chainId}.json
+
+Otherwise the script automatically detects your config file:
   • First checks: ./config/nodeConfig.json
   • Then looks for: ./config/node-config-{chainId}.json
   • Also checks: ./config/nodeConfig-{chainId}.json
@@ -321,10 +692,40 @@ The script automatically detects your config file:
 
 Options:
   --config <path>                 Path to nodeConfig.json (default: ./config/nodeConfig.json)
+  --chain-id <id>                 Use the node config of the deployment with this chain ID
+  --chain <name>                  Use the node config of the deployment with this chain name
+  --file <path>                   Use the node config of this deployment file
   --output <path>                 Output path for docker-compose.yml (default: ./docker-compose.yml)
+  --overwrite                     Replace the output file instead of merging into it
+  --secrets-dir <dir>             Write Celestia tokens and node private keys to env files in <dir>
+                                  (mode 0600) and mount a copy of the node config without keys
+  --port-offset <n>               Add n to every host port (e.g. 10000 for a second chain on this host)
+  --port-map <ports>              Set host ports explicitly by their default, e.g. 8547=18547,26657=36657
+  --skip-conflict-check           Don't check ports and names against other generated compose files
+  --skip-consensus-check          Don't check the Nitro image against the chain's consensus release
+  Runtime:
+  --no-healthchecks               Don't add healthchecks; nodes then only wait for celestia-server to start
+  --restart <policy>              Restart policy: no, always, on-failure, unless-stopped (default: unless-stopped)
+  --log-max-size <size>           Size at which a container log is rotated (default: 50m)
+  --log-max-file <n>              Number of rotated log files to keep (default: 5)
+  --cpus <n>                      CPU limit for each Nitro node (e.g. 4)
+  --memory <size>                 Memory limit for each Nitro node (e.g. 16g)
+  --celestia-cpus <n>             CPU limit for celestia-server
+  --celestia-memory <size>        Memory limit for celestia-server
+
+  --with-monitoring               Enable metrics in the node config and add Prometheus (host port 9091)
+                                  and Grafana (host port 3000) with a dashboard for the chain
+  --prometheus-image <image>      Prometheus image (default: prom/prometheus:v2.53.0)
+  --grafana-image <image>         Grafana image (default: grafana/grafana:11.1.0)
+
+  --topology <roles>              Run each role as its own service, e.g. sequencer,full-node:2,validator
+                                  (default: one node running sequencer, batch poster and staker)
 
   Celestia Configuration:
-  --celestia-namespace <id>       Celestia namespace ID (auto-generated if not provided)
+  --celestia-namespace <ns>       Celestia namespace: a 10-byte ID, <version>:<id> or the full
+                                  29-byte namespace (default: recorded for the chain, else
+                                  derived from the chain ID)
+  --replace-namespace             Replace the namespace recorded in the deployment file
   --celestia-rpc <url>            Celestia node RPC endpoint (default: http://0.0.0.0:26658/)
   --celestia-auth-token <token>   Celestia auth token (optional)
   --celestia-core-network <name>  Celestia core network name (default: mocha-4)
@@ -354,6 +755,24 @@ Examples:
     --celestia-rpc "http://151.115.61.39:26658/" \\
     --celestia-key-path "./celestia-keys"
 
+  # Keep tokens and private keys out of docker-compose.yml and the mounted config
+  tsx generate-docker-compose.ts \\
+    --celestia-core-token "your-core-token-here" \\
+    --secrets-dir ./secrets
+
+  # Sequencer, two read-only full nodes and a separate validator
+  tsx generate-docker-compose.ts \\
+    --topology sequencer,full-node:2,validator
+
+  # Prometheus and Grafana with the chain dashboard
+  tsx generate-docker-compose.ts --with-monitoring
+
+  # A second chain on the same host
+  tsx generate-docker-compose.ts \\
+    --chain-id 412347 \\
+    --output ./docker-compose.412347.yml \\
+    --port-offset 10000
+
   # Specify custom config location
   tsx generate-docker-compose.ts \\
     --config ./deployments/nodeConfig.json
@@ -366,10 +785,22 @@ Important Notes:
   • The Core Token and Core URL are required for production use
   • The Core URL should be a gRPC endpoint (usually port 9090)
   • Do NOT include https:// in the Core URL
-  • The namespace must be exactly 10 bytes (20 hex characters)
+  • The namespace ID must be exactly 10 bytes (20 hex characters); only version 0
+    is accepted and 0x00...00-0x00...ff is reserved
+  • The namespace is recorded in the deployment file and reused on later runs
   • TLS is enabled by default for core connection
   • If no key path is provided, keys will be stored in a Docker volume
   • Key path should point to a directory containing Celestia keys
+  • With --topology, role configs are written next to the node config
+    (node-config-{chainId}.{service}.json); full nodes get no keys and forward
+    transactions to the sequencer, and host ports are shifted by 100 per node
+  • Healthchecks run curl inside the containers; use --no-healthchecks with
+    images that don't ship it
+  • With --with-monitoring, metrics are enabled in the node config file itself and
+    the Prometheus and Grafana config is written to ./monitoring/<project name>/
+    next to the compose file
+  • Generated compose files in the output and working directories are checked
+    for clashing host ports, container names and project names
 `);
         process.exit(0);
     }
@@ -382,7 +813,19 @@ Important Notes:
     const outputPath = outputIndex !== -1 ? args[outputIndex + 1] : './docker-compose.yml';
 
     const namespaceIndex = args.indexOf('--celestia-namespace');
-    const celestiaNamespace = namespaceIndex !== -1 ? args[namespaceIndex + 1] : undefined;
+    let celestiaNamespace: CelestiaNamespace | undefined;
+    if (namespaceIndex !== -1) {
+        try {
+            celestiaNamespace = parseNamespace(args[namespaceIndex + 1] ?? '');
+        } catch (error) {
+            if (!(error instanceof NamespaceError)) {
+                throw error;
+            }
+            console.error(`❌ Error: ${error.message}`);
+            process.exit(1);
+        }
+    }
+    const replaceNamespace = args.includes('--replace-namespace');
 
     const rpcIndex = args.indexOf('--celestia-rpc');
     const celestiaRpc = rpcIndex !== -1 ? args[rpcIndex + 1] : undefined;
@@ -419,16 +862,116 @@ Important Notes:
     const containerNameIndex = args.indexOf('--container-name');
     const containerName = containerNameIndex !== -1 ? args[containerNameIndex + 1] : undefined;
 
+    const overwrite = args.includes('--overwrite');
+
+    const secretsDirIndex = args.indexOf('--secrets-dir');
+    const secretsDir = secretsDirIndex !== -1 ? args[secretsDirIndex + 1]?.replace(/\/+$/, '') : undefined;
+
+    const portOffsetIndex = args.indexOf('--port-offset');
+    const portOffset = portOffsetIndex !== -1 ? Number(args[portOffsetIndex + 1]) : undefined;
+    if (portOffset !== undefined && (!Number.isInteger(portOffset) || portOffset < 0)) {
+        console.error(`❌ Error: --port-offset must be a non-negative integer`);
+        process.exit(1);
+    }
+
+    const portMapIndex = args.indexOf('--port-map');
+    let portMap: Record<number, number> | undefined;
+    if (portMapIndex !== -1) {
+        try {
+            portMap = parsePortMap(args[portMapIndex + 1] ?? '');
+        } catch (error) {
+            console.error(`❌ Error: ${(error as Error).message}`);
+            process.exit(1);
+        }
+    }
+
+    const skipConflictCheck = args.includes('--skip-conflict-check');
+    const skipConsensusCheck = args.includes('--skip-consensus-check');
+
+    const optionValue = (name: string): string | undefined => {
+        const index = args.indexOf(name);
+        return index !== -1 ? args[index + 1] : undefined;
+    };
+    const fail = (message: string): never => {
+        console.error(`❌ Error: ${message}`);
+        process.exit(1);
+    };
+
+    const healthchecks = !args.includes('--no-healthchecks');
+
+    const restartPolicy = optionValue('--restart') as ComposeRestartPolicy | undefined;
+    if (restartPolicy !== undefined && !COMPOSE_RESTART_POLICIES.includes(restartPolicy)) {
+        fail(`--restart must be one of: ${COMPOSE_RESTART_POLICIES.join(', ')}`);
+    }
+
+    const logMaxSize = optionValue('--log-max-size');
+    if (logMaxSize !== undefined && !/^\d+[kmg]$/i.test(logMaxSize)) {
+        fail('--log-max-size must be a size such as 10m or 1g');
+    }
+    const logMaxFileValue = optionValue('--log-max-file');
+    const logMaxFile = logMaxFileValue !== undefined ? Number(logMaxFileValue) : undefined;
+    if (logMaxFile !== undefined && (!Number.isInteger(logMaxFile) || logMaxFile < 1)) {
+        fail('--log-max-file must be a positive integer');
+    }
+
+    const parseLimits = (cpusOption: string, memoryOption: string): ComposeResourceLimits | undefined => {
+        const cpus = optionValue(cpusOption);
+        const memory = optionValue(memoryOption);
+        if (cpus !== undefined && !(Number(cpus) > 0)) {
+            fail(`${cpusOption} must be a positive number`);
+        }
+        if (memory !== undefined && !/^\d+(\.\d+)?[kmg]?$/i.test(memory)) {
+            fail(`${memoryOption} must be a size such as 512m or 16g`);
+        }
+        return cpus || memory ? { ...(cpus && { cpus }), ...(memory && { memory }) } : undefined;
+    };
+    const nitroLimits = parseLimits('--cpus', '--memory');
+    const celestiaLimits = parseLimits('--celestia-cpus', '--celestia-memory');
+
+    const monitoring = args.includes('--with-monitoring');
+    const prometheusImage = optionValue('--prometheus-image');
+    const grafanaImage = optionValue('--grafana-image');
+
+    const topologyIndex = args.indexOf('--topology');
+    let topology: TopologyNode[] | undefined;
+    if (topologyIndex !== -1) {
+        try {
+            topology = parseTopology(args[topologyIndex + 1] ?? '');
+        } catch (error) {
+            if (!(error instanceof TopologyError)) {
+                throw error;
+            }
+            console.error(`❌ Error: ${error.message}`);
+            process.exit(1);
+        }
+    }
+
     // Smart config file detection
     let finalConfigPath = configPath;
+    const selector = parseDeploymentSelector(args);
+    let deployment: DeploymentRecord | undefined;
 
-    if (!fs.existsSync(configPath) && configPath === './config/nodeConfig.json') {
+    if (configIndex === -1 && hasDeploymentSelector(selector)) {
+        // Resolve through the deployment registry rather than scanning ./config
+        try {
+            deployment = resolveDeployment(selector);
+            const { file, info } = deployment;
+            finalConfigPath = `./config/node-config-${info.chainId}.json`;
+            console.log(`ℹ️  Using deployment ${file} (chain ${info.chainId}): ${finalConfigPath}`);
+        } catch (error) {
+            if (!(error instanceof DeploymentSelectionError)) {
+                throw error;
+            }
+            console.error(`❌ Error: ${error.message}`);
+            process.exit(1);
+        }
+    } else if (!fs.existsSync(configPath) && configPath === './config/nodeConfig.json') {
         // If default path doesn't exist, look for node-config-{chainId}.json or nodeConfig-{chainId}.json files
         const configDir = './config';
         if (fs.existsSync(configDir)) {
             const files = fs.readdirSync(configDir);
             const nodeConfigFiles = files.filter(f =>
-                (f.startsWith('node-config') || f.startsWith('nodeConfig')) && f.endsWith('.json')
+                (f.startsWith('node-config') || f.startsWith('nodeConfig')) && f.endsWith('.json') && !/\.[a-z0-9-]+\.json$/.test(f)
             );
 
             if (nodeConfigFiles.length === 1) {
@@ -437,7 +980,7 @@ Important Notes:
             } else if (nodeConfigFiles.length > 1) {
                 console.error(`❌ Error: Multiple config files found in ${configDir}:`);
                 nodeConfigFiles.forEach(f => console.error(`   - ${f}`));
-                console.error('Please specify which one to use with --config <path>');
+                console.error('Please specify which one to use with --chain-id <id> or --config <path>');
                 process.exit(1);
             }
         }
@@ -452,6 +995,8 @@ Important Notes:
     try {
         generateDockerCompose(finalConfigPath, outputPath, {
             celestiaNamespace,
+            replaceNamespace,
+            deployment,
             celestiaRpcEndpoint: celestiaRpc,
             celestiaAuthToken,
             celestiaCoreNetwork,
@@ -462,8 +1007,44 @@ Important Notes:
             nitroImage,
             celestiaServerImage: celestiaImage,
             containerName,
+            overwrite,
+            secretsDir,
+            topology,
+            portOffset,
+            portMap,
+            skipConflictCheck,
+            skipConsensusCheck,
+            healthchecks,
+            restartPolicy,
+            logMaxSize,
+            logMaxFile,
+            nitroLimits,
+            celestiaLimits,
+            monitoring,
+            prometheusImage,
+            grafanaImage,
         });
     } catch (error) {
+        if (error instanceof ComposeFileError) {
+            console.error(`❌ Error: ${error.message}`);
+            console.error('Fix the file or pass --overwrite to replace it');
+            process.exit(1);
+        }
+        if (error instanceof NamespaceError || error instanceof DeploymentSelectionError || error instanceof NodeConfigError) {
+            console.error(`❌ Error: ${error.message}`);
+            process.exit(1);
+        }
+        if (error instanceof ComposeConflictError) {
+            console.error(`❌ Error: ${error.message}:`);
+            error.conflicts.forEach(conflict => console.error(`   - ${conflict}`));
+            console.error('Pick other host ports with --port-offset or --port-map, or a different --container-name');
+            process.exit(1);
+        }
+        if (error instanceof ConsensusVersionError) {
+            console.error(`❌ Error: ${error.message}`);
+            console.error('Pick a matching --nitro-image, or pass --skip-consensus-check');
+            process.exit(1);
+        }
         console.error('❌ Error generating docker-compose.yml:', error);
         process.exit(1);
     }
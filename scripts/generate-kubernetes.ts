@@ -0,0 +1,292 @@
+#!/usr/bin/env tsx
+
+import fs from 'fs';
+import path from 'path';
+import {
+  DeploymentSelectionError,
+  findDeployment,
+  hasDeploymentSelector,
+  parseDeploymentSelector,
+  resolveDeployment,
+  type DeploymentRecord,
+} from '../src/deployments/index.js';
+import {
+  formatNamespace,
+  NamespaceError,
+  parseNamespace,
+  resolveChainNamespace,
+} from '../src/namespace/index.js';
+import {
+  celestiaServerCommand,
+  celestiaServerSettings,
+  DEFAULT_CELESTIA_SERVER_IMAGE,
+  DEFAULT_NITRO_IMAGE,
+} from '../src/celestia-server/index.js';
+import {
+  buildKubernetesManifests,
+  KubernetesValidationError,
+  serializeKubernetesManifests,
+  validateKubernetesManifests,
+  type KubernetesResourceLimits,
+} from '../src/kubernetes/index.js';
+import { nodeConfigChainId, nodeConfigDaMode, NodeConfigError } from '../src/node-config/index.js';
+import { checkNitroImage, ConsensusVersionError } from '../src/consensus/index.js';
+import { stripNodeConfigSecrets, writeSecretFile } from '../src/secrets/index.js';
+import type { CelestiaNamespace } from '../src/types/index.js';
+
+const HEADER = 'Generated by generate-kubernetes.ts';
+const DEFAULT_STORAGE_SIZE = '500Gi';
+const DEFAULT_CELESTIA_KEYS_SIZE = '1Gi';
+
+function printUsage() {
+  console.log(`
+Usage: tsx scripts/generate-kubernetes.ts [options]
+
+Generates Kubernetes manifests for a chain: a StatefulSet running Nitro with a
+persistent volume, a Deployment running celestia-server, Services for both, a
+ConfigMap holding the node config and a Secret holding the node's private keys
+and the Celestia tokens.
+
+Chains in the rollup or anytrust DA mode get the Nitro resources only.
+
+The Secret is written to its own file (<output>-secret.yaml, mode 0600) so the
+other manifests can be committed. Apply both with: kubectl apply -f <dir>
+
+Options:
+  --config <path>                 Path to the node config (default: ./config/node-config-{chainId}.json
+                                  of the selected deployment, else the only one in ./config)
+  --chain-id <id>                 Use the node config of the deployment with this chain ID
+  --chain <name>                  Use the node config of the deployment with this chain name
+  --file <path>                   Use the node config of this deployment file
+  --output <path>                 Output path (default: ./kubernetes/<name>.yaml)
+  --name <name>                   Prefix of the resource names (default: orbit-<chain-name>)
+  --k8s-namespace <namespace>     Kubernetes namespace of the resources (default: none, kubectl's current)
+  --external-secret <name>        Reference an existing Secret instead of generating one
+  --storage-size <size>           Size of the Nitro data volume (default: ${DEFAULT_STORAGE_SIZE})
+  --storage-class <class>         Storage class of the volumes (default: the cluster default)
+  --celestia-keys-size <size>     Size of the celestia-server key volume (default: ${DEFAULT_CELESTIA_KEYS_SIZE})
+  --cpus <n>                      CPU request and limit for Nitro (e.g. 4 or 500m)
+  --memory <size>                 Memory request and limit for Nitro (e.g. 16Gi)
+  --celestia-cpus <n>             CPU request and limit for celestia-server
+  --celestia-memory <size>        Memory request and limit for celestia-server
+
+  Celestia Configuration (as in generate-docker-compose.ts):
+  --celestia-namespace <ns>       Celestia namespace (default: recorded for the chain, else
+                                  derived from the chain ID)
+  --replace-namespace             Replace the namespace recorded in the deployment file
+  --celestia-rpc <url>            Celestia node RPC endpoint (default: http://0.0.0.0:26658/)
+  --celestia-auth-token <token>   Celestia auth token (optional)
+  --celestia-core-network <name>  Celestia core network name (default: mocha-4)
+  --celestia-core-token <token>   Celestia core token (required for production)
+  --celestia-core-url <url>       Celestia core gRPC URL (e.g., grpc.celestia-mocha.com:9090)
+  --celestia-disable-core-tls     Disable TLS for core connection
+
+  Images:
+  --nitro-image <image>           Nitro image (default: ${DEFAULT_NITRO_IMAGE})
+  --skip-consensus-check          Don't check the Nitro image against the chain's consensus release
+  --celestia-image <image>        Celestia server image (default: ${DEFAULT_CELESTIA_SERVER_IMAGE})
+
+  --help, -h                      Show this help message
+
+Examples:
+  # Manifests for the deployment of chain 412346
+  tsx scripts/generate-kubernetes.ts --chain-id 412346 --celestia-core-token "your-core-token"
+
+  # In the "rollups" namespace, with a Secret managed elsewhere
+  tsx scripts/generate-kubernetes.ts --chain-id 412346 \\
+    --k8s-namespace rollups --external-secret orbit-412346-keys
+
+The manifests are validated offline before they are written: names, labels,
+ports and quantities, and that volumes, Secret keys, named ports and Service
+selectors all resolve.
+`);
+}
+
+function findNodeConfig(configDir: string): string {
+  const files = fs.existsSync(configDir)
+    ? fs
+        .readdirSync(configDir)
+        .filter(
+          (file) =>
+            (file.startsWith('node-config') || file.startsWith('nodeConfig')) &&
+            file.endsWith('.json') &&
+            !/\.[a-z0-9-]+\.json$/.test(file)
+        )
+    : [];
+  if (files.length !== 1) {
+    throw new DeploymentSelectionError(
+      files.length === 0
+        ? `No node config found in ${configDir}; pass --config <path> or --chain-id <id>`
+        : `Multiple node configs found in ${configDir} (${files.join(', ')}); pass --chain-id <id> or --config <path>`
+    );
+  }
+  return path.join(configDir, files[0]);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const optionValue = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const limits = (cpus?: string, memory?: string): KubernetesResourceLimits | undefined =>
+    cpus || memory ? { ...(cpus && { cpu: cpus }), ...(memory && { memory }) } : undefined;
+
+  const requestedNamespace = optionValue('--celestia-namespace');
+  const celestiaNamespace: CelestiaNamespace | undefined =
+    requestedNamespace !== undefined ? parseNamespace(requestedNamespace) : undefined;
+
+  // Resolve the node config: explicit path, selected deployment, or the only one in ./config
+  const selector = parseDeploymentSelector(args);
+  let deployment: DeploymentRecord | undefined;
+  let configPath = optionValue('--config');
+  if (!configPath && hasDeploymentSelector(selector)) {
+    deployment = resolveDeployment(selector);
+    configPath = `./config/node-config-${deployment.info.chainId}.json`;
+    console.log(`ℹ️  Using deployment ${deployment.file} (chain ${deployment.info.chainId}): ${configPath}`);
+  }
+  configPath ??= findNodeConfig('./config');
+  if (!fs.existsSync(configPath)) {
+    throw new DeploymentSelectionError(`Node config not found at ${configPath}`);
+  }
+
+  const nodeConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  const chainId = nodeConfigChainId(nodeConfig);
+  const chainName: string = nodeConfig.chain.name;
+  deployment ??= findDeployment(chainId);
+
+  // Rollup and AnyTrust chains post their batches without celestia-server
+  const daMode = nodeConfigDaMode(nodeConfig);
+  const chainNamespace =
+    daMode === 'celestia'
+      ? resolveChainNamespace({
+          chainId,
+          deployment,
+          requested: celestiaNamespace,
+          replace: args.includes('--replace-namespace'),
+        })
+      : undefined;
+
+  const celestia = celestiaServerSettings({
+    rpcEndpoint: optionValue('--celestia-rpc'),
+    coreNetwork: optionValue('--celestia-core-network'),
+    coreToken: optionValue('--celestia-core-token'),
+    coreUrl: optionValue('--celestia-core-url'),
+    enableCoreTls: !args.includes('--celestia-disable-core-tls'),
+    authToken: optionValue('--celestia-auth-token'),
+  });
+  // Kubernetes expands $(NAME) in command and args from the container's env
+  const celestiaServer = chainNamespace && celestiaServerCommand(celestia, chainNamespace.namespace, (env) => `$(${env})`);
+  const celestiaSecrets = celestiaServer?.secrets ?? {};
+
+  // Validators prove blocks with the image's replay binary, as in generate-docker-compose.ts
+  const nitroImage = optionValue('--nitro-image') ?? DEFAULT_NITRO_IMAGE;
+  const consensusCheck = args.includes('--skip-consensus-check')
+    ? undefined
+    : checkNitroImage(nitroImage, deployment?.info.rollupParameters?.wasmModuleRoot);
+  if (consensusCheck?.warning) {
+    console.warn(`⚠️  ${consensusCheck.warning}`);
+  }
+  const consensusRelease = consensusCheck?.release;
+
+  const { config: publicConfig, env: nodeSecrets } = stripNodeConfigSecrets(nodeConfig);
+  const name = optionValue('--name') ?? `orbit-${chainName.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`;
+  const externalSecret = optionValue('--external-secret');
+
+  const manifests = buildKubernetesManifests({
+    name,
+    namespace: optionValue('--k8s-namespace'),
+    nodeConfig: publicConfig,
+    nodeSecrets,
+    httpPort: nodeConfig.http?.port || 8547,
+    nitroImage,
+    celestiaServerImage: optionValue('--celestia-image') ?? DEFAULT_CELESTIA_SERVER_IMAGE,
+    celestiaCommand: celestiaServer?.command,
+    celestiaSecrets,
+    externalSecret,
+    storageSize: optionValue('--storage-size') ?? DEFAULT_STORAGE_SIZE,
+    storageClass: optionValue('--storage-class'),
+    celestiaKeysStorageSize: optionValue('--celestia-keys-size') ?? DEFAULT_CELESTIA_KEYS_SIZE,
+    nitroLimits: limits(optionValue('--cpus'), optionValue('--memory')),
+    celestiaLimits: limits(optionValue('--celestia-cpus'), optionValue('--celestia-memory')),
+  });
+
+  const problems = validateKubernetesManifests(
+    [...manifests.resources, ...(manifests.secret ? [manifests.secret] : [])],
+    externalSecret ? [externalSecret] : []
+  );
+  if (problems.length > 0) {
+    throw new KubernetesValidationError(problems);
+  }
+
+  const outputPath = optionValue('--output') ?? `./kubernetes/${name}.yaml`;
+  const secretPath = outputPath.replace(/(\.ya?ml)?$/, '-secret.yaml');
+  const header = `${HEADER}\nChain: ${chainName} (${chainId})`;
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, serializeKubernetesManifests(manifests.resources, header));
+  if (manifests.secret) {
+    writeSecretFile(secretPath, serializeKubernetesManifests([manifests.secret], `${header}\nDo not commit this file`));
+  }
+  if (deployment && chainNamespace?.record) {
+    fs.writeFileSync(
+      deployment.file,
+      JSON.stringify({ ...deployment.info, celestiaNamespace: chainNamespace.namespace }, null, 2)
+    );
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('☸️  Kubernetes manifests generated');
+  console.log('═══════════════════════════════════════════════════════\n');
+  console.log(`📋 Chain: ${chainName} (${chainId})`);
+  console.log(`📄 Node config: ${configPath}`);
+  console.log(`🐳 Nitro image: ${nitroImage}${consensusRelease ? ` (consensus ${consensusRelease.version})` : ''}`);
+  console.log(`📦 Manifests: ${outputPath}`);
+  for (const resource of manifests.resources) {
+    console.log(`   • ${resource.kind} ${resource.metadata.name}`);
+  }
+  if (manifests.secret) {
+    console.log(`🔐 Secret: ${secretPath} (mode 0600, do not commit)`);
+    console.log(`   • Secret ${manifests.secret.metadata.name}: ${Object.keys(manifests.secret.stringData).length} keys`);
+  } else {
+    console.log(`🔐 Using existing Secret ${externalSecret}; it must contain:`);
+    [...Object.keys(nodeSecrets), ...Object.keys(celestiaSecrets)].forEach((key) => console.log(`   • ${key}`));
+  }
+  if (chainNamespace) {
+    console.log(`\n🔵 Celestia namespace: ${formatNamespace(chainNamespace.namespace)} (${chainNamespace.source})`);
+    if (deployment && chainNamespace.record) {
+      console.log(`   ℹ️  Recorded in ${deployment.file}`);
+    }
+    if (!celestia.coreToken) {
+      console.log(`   ⚠️  No --celestia-core-token given; required for production`);
+    }
+  } else {
+    console.log(`\n🔵 DA mode: ${daMode} (no celestia-server)`);
+  }
+  console.log(`\n🚀 Apply with: kubectl apply -f ${path.dirname(outputPath)}`);
+}
+
+main().catch((error) => {
+  if (
+    error instanceof KubernetesValidationError ||
+    error instanceof NamespaceError ||
+    error instanceof DeploymentSelectionError ||
+    error instanceof NodeConfigError ||
+    error instanceof ConsensusVersionError
+  ) {
+    console.error(`❌ Error: ${error.message}`);
+    if (error instanceof ConsensusVersionError) {
+      console.error('Pick a matching --nitro-image, or pass --skip-consensus-check');
+    }
+    process.exit(1);
+  }
+  console.error(error);
+  process.exit(1);
+});
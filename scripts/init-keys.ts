@@ -0,0 +1,177 @@
+import { config } from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { Address } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { writeSecretFile } from '../src/secrets/index.js';
+import {
+  encryptKeystore,
+  KEYSTORE_PASSWORD_FILE_ENV,
+  promptPassword,
+  roleSignerAddresses,
+  SIGNER_ENV,
+  SignerError,
+  type OperatorRole,
+} from '../src/signer/index.js';
+
+config();
+
+const ROLES: OperatorRole[] = ['deployer', 'batch-poster', 'validator'];
+
+function printUsage(): void {
+  console.log(`
+Usage: tsx scripts/init-keys.ts [options]
+
+Generates a separate key for the deployer, the batch poster and the validator,
+each in its own encrypted keystore, and points .env at them:
+<ROLE>_KEYSTORE for every role, plus BATCH_POSTER_ADDRESS and
+VALIDATOR_ADDRESSES derived from the new keys. Private keys the keystores
+replace are commented out in .env, not deleted.
+
+The keystores share one password, read from --password-file or prompted for.
+With a password file, KEYSTORE_PASSWORD_FILE is set too; otherwise deploy
+asks for the password of each keystore.
+
+Options:
+  --roles <list>           Roles to generate keys for (default: deployer,batch-poster,validator).
+                           Keep a funded deployer with --roles batch-poster,validator
+  --dir <path>             Where to write the keystores (default: ./keys)
+  --password-file <path>   File with the keystore password
+  --env-file <path>        Env file to update (default: .env)
+  --print                  Print the env lines instead of updating the env file
+  --force                  Overwrite existing keystores
+  --help, -h               Show this help message
+`);
+}
+
+// Sets each variable in an env file, in place when it's already there, and comments out the replaced ones
+function updateEnvFile(path: string, values: Record<string, string>, replaced: string[]): void {
+  const lines = existsSync(path) ? readFileSync(path, 'utf-8').replace(/\n$/, '').split('\n') : [];
+  const pending = new Map(Object.entries(values));
+  const updated = lines.map((line) => {
+    const key = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/)?.[1];
+    if (!key) {
+      return line;
+    }
+    if (pending.has(key)) {
+      const value = pending.get(key)!;
+      pending.delete(key);
+      return `${key}=${value}`;
+    }
+    return replaced.includes(key) ? `# ${line} (replaced by npm run init-keys)` : line;
+  });
+  if (pending.size > 0) {
+    updated.push('', '# Generated by npm run init-keys', ...[...pending].map(([key, value]) => `${key}=${value}`));
+  }
+  writeSecretFile(path, `${updated.join('\n')}\n`);
+}
+
+async function readPassword(passwordFile: string | undefined): Promise<string> {
+  if (passwordFile) {
+    if (!existsSync(passwordFile)) {
+      throw new SignerError(`Password file not found: ${passwordFile}`);
+    }
+    return readFileSync(passwordFile, 'utf-8').replace(/\r?\n$/, '');
+  }
+  const password = await promptPassword('🔑 Keystore password: ');
+  if ((await promptPassword('🔑 Repeat the password: ')) !== password) {
+    throw new SignerError('The passwords do not match');
+  }
+  return password;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    return;
+  }
+
+  const optionValue = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  const dir = optionValue('--dir') ?? './keys';
+  const passwordFile = optionValue('--password-file');
+  const envFile = optionValue('--env-file') ?? '.env';
+  const print = args.includes('--print');
+
+  const roles = (optionValue('--roles') ?? ROLES.join(',')).split(',').map((role) => role.trim());
+  const unknown = roles.filter((role) => !ROLES.includes(role as OperatorRole));
+  if (unknown.length > 0) {
+    throw new SignerError(`Unknown roles: ${unknown.join(', ')} (expected ${ROLES.join(', ')})`);
+  }
+
+  const keystorePaths = Object.fromEntries(roles.map((role) => [role, join(dir, `${role}.json`)]));
+  const existing = Object.values(keystorePaths).filter((path) => existsSync(path));
+  if (existing.length > 0 && !args.includes('--force')) {
+    throw new SignerError(`Keystores already exist: ${existing.join(', ')}. Pass --force to replace them`);
+  }
+
+  console.log('🔐 Generating Keys\n');
+  const password = await readPassword(passwordFile);
+  if (!password) {
+    throw new SignerError('The keystore password cannot be empty');
+  }
+
+  const keys = (roles as OperatorRole[]).map((role) => {
+    const privateKey = generatePrivateKey();
+    return { role, privateKey, address: privateKeyToAccount(privateKey).address };
+  });
+
+  // Roles kept as they are still count: no two roles may end up sharing an account
+  const addresses: Partial<Record<OperatorRole, Address>> = await roleSignerAddresses();
+  keys.forEach(({ role, address }) => (addresses[role] = address));
+  const assigned = Object.values(addresses).map((address) => address.toLowerCase());
+  if (new Set(assigned).size !== assigned.length) {
+    throw new SignerError('Two of the kept roles share an account; generate new keys for one of them with --roles');
+  }
+
+  const values: Record<string, string> = {};
+  const replaced: string[] = [];
+  for (const { role, privateKey, address } of keys) {
+    // Scrypt at geth's cost takes a moment per keystore
+    writeSecretFile(keystorePaths[role], JSON.stringify(encryptKeystore(privateKey, password), null, 2));
+
+    const { privateKey: privateKeyEnv, prefix } = SIGNER_ENV[role];
+    values[`${prefix}_KEYSTORE`] = keystorePaths[role];
+    replaced.push(privateKeyEnv, `${prefix}_KEYSTORE_PASSWORD_FILE`, `${prefix}_REMOTE_SIGNER_URL`, `${prefix}_REMOTE_SIGNER_ADDRESS`);
+    console.log(`  ✅ ${role.padEnd(12)} ${address}  ${keystorePaths[role]}`);
+  }
+
+  if (roles.includes('batch-poster')) {
+    values.BATCH_POSTER_ADDRESS = addresses['batch-poster']!;
+  }
+  if (roles.includes('validator')) {
+    values.VALIDATOR_ADDRESSES = addresses.validator!;
+  }
+  if (passwordFile) {
+    values[KEYSTORE_PASSWORD_FILE_ENV] = passwordFile;
+  }
+  console.log();
+
+  if (print) {
+    console.log('Add to your env file:');
+    Object.entries(values).forEach(([key, value]) => console.log(`${key}=${value}`));
+    const stale = replaced.filter((key) => process.env[key]);
+    if (stale.length > 0) {
+      console.log(`\n⚠️  And remove ${stale.join(', ')}: a role can only have one signer`);
+    }
+  } else {
+    updateEnvFile(envFile, values, replaced);
+    console.log(`✅ Updated ${envFile}: ${Object.keys(values).join(', ')}`);
+  }
+
+  console.log('\n💡 Next steps:');
+  console.log('   Back up the keystores and the password; the keys exist nowhere else');
+  console.log('   Fund the accounts: npm run check-funding\n');
+}
+
+main().catch((error) => {
+  if (error instanceof SignerError) {
+    console.error(`❌ Error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
@@ -1,8 +1,8 @@
 import { createPublicClient, http, decodeEventLog } from 'viem';
-import { sepolia } from 'viem/chains';
 import { config } from 'dotenv';
-import { readFileSync, writeFileSync, readdirSync } from 'fs';
-import type { DeploymentInfo } from '../src/types/index.js';
+import { writeFileSync } from 'fs';
+import { explorerAddressUrl, explorerTxUrl, resolveParentChain } from '../src/chains/index.js';
+import { DeploymentSelectionError, parseDeploymentSelector, resolveDeployment } from '../src/deployments/index.js';
 
 config();
 
@@ -79,27 +79,22 @@ async function main(): Promise<void> {
     throw new Error('PARENT_CHAIN_RPC not set in .env');
   }
 
-  const publicClient = createPublicClient({
-    chain: sepolia,
-    transport: http(process.env.PARENT_CHAIN_RPC),
-  });
-
-  // Find most recent deployment file
-  const deploymentFiles = readdirSync('deployments')
-    .filter(f => f.startsWith('deployment-') && f.endsWith('.json'))
-    .sort()
-    .reverse();
+  // Select the deployment by --chain-id, --chain or --file (never by guessing between chains)
+  const { file: deploymentFile, info: deployment } = resolveDeployment(parseDeploymentSelector(process.argv.slice(2)));
 
-  if (deploymentFiles.length === 0) {
-    console.error('❌ No deployment files found');
-    console.log('Run npm run deploy first');
-    process.exit(1);
-  }
+  console.log(`Reading: ${deploymentFile}\n`);
 
-  const latestFile = `deployments/${deploymentFiles[0]}`;
-  console.log(`Reading: ${latestFile}\n`);
+  // Resolve the parent chain the deployment was made on
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: process.env.PARENT_CHAIN_RPC,
+    chainId: deployment.parentChainId,
+  });
+  const parentChain = parentChainInfo.chain;
 
-  const deployment: DeploymentInfo = JSON.parse(readFileSync(latestFile, 'utf8'));
+  const publicClient = createPublicClient({
+    chain: parentChain,
+    transport: http(process.env.PARENT_CHAIN_RPC),
+  });
 
   console.log('Deployment Info:');
   console.log(`  Chain ID: ${deployment.chainId}`);
@@ -151,8 +146,11 @@ async function main(): Promise<void> {
     console.log('   2. Different event signature (old version)');
     console.log('   3. Wrong transaction hash');
     console.log();
-    console.log('Check transaction on Etherscan:');
-    console.log(`https://sepolia.etherscan.io/tx/${deployment.transactionHash}`);
+    const txExplorerUrl = explorerTxUrl(parentChain, deployment.transactionHash);
+    if (txExplorerUrl) {
+      console.log('Check transaction on the block explorer:');
+      console.log(txExplorerUrl);
+    }
     process.exit(1);
   }
 
@@ -161,14 +159,21 @@ async function main(): Promise<void> {
   // Extract contract addresses from the event
   const args = decodedEvent.args as any;
 
+  // validatorUtils is not part of the event, so keep whatever the deploy script recorded
   deployment.contracts = {
+    ...deployment.contracts,
     rollup: args.rollupAddress,
+    nativeToken: args.nativeToken,
     inbox: args.inboxAddress,
     outbox: args.outbox,
+    rollupEventInbox: args.rollupEventInbox,
+    challengeManager: args.challengeManager,
     adminProxy: args.adminProxy,
     sequencerInbox: args.sequencerInbox,
     bridge: args.bridge,
+    upgradeExecutor: args.upgradeExecutor,
     validatorWalletCreator: args.validatorWalletCreator,
+    deployedAtBlockNumber: Number(receipt.blockNumber),
   };
 
   console.log('═══════════════════════════════════════════════');
@@ -177,12 +182,15 @@ async function main(): Promise<void> {
   console.log(`Rollup:                   ${deployment.contracts.rollup}`);
   console.log(`Inbox:                    ${deployment.contracts.inbox}`);
   console.log(`Outbox:                   ${deployment.contracts.outbox}`);
-  console.log(`Rollup Event Inbox:       ${args.rollupEventInbox}`);
-  console.log(`Challenge Manager:        ${args.challengeManager}`);
+  console.log(`Rollup Event Inbox:       ${deployment.contracts.rollupEventInbox}`);
+  console.log(`Challenge Manager:        ${deployment.contracts.challengeManager}`);
   console.log(`Admin Proxy:              ${deployment.contracts.adminProxy}`);
   console.log(`Sequencer Inbox:          ${deployment.contracts.sequencerInbox}`);
   console.log(`Bridge:                   ${deployment.contracts.bridge}`);
-  console.log(`Upgrade Executor:         ${args.upgradeExecutor}`);
+  console.log(`Upgrade Executor:         ${deployment.contracts.upgradeExecutor}`);
+  if (deployment.contracts.validatorUtils) {
+    console.log(`Validator Utils:          ${deployment.contracts.validatorUtils}`);
+  }
   console.log(`Validator Wallet Creator: ${deployment.contracts.validatorWalletCreator}`);
   console.log('═══════════════════════════════════════════════\n');
 
@@ -192,8 +200,8 @@ async function main(): Promise<void> {
   console.log();
 
   // Save updated deployment file
-  writeFileSync(latestFile, JSON.stringify(deployment, null, 2));
-  console.log(`💾 Updated deployment file: ${latestFile}\n`);
+  writeFileSync(deploymentFile, JSON.stringify(deployment, null, 2));
+  console.log(`💾 Updated deployment file: ${deploymentFile}\n`);
 
   // Create a simplified config file for node operators
   const nodeConfig = {
@@ -203,9 +211,13 @@ async function main(): Promise<void> {
     rollup: deployment.contracts.rollup,
     inbox: deployment.contracts.inbox,
     outbox: deployment.contracts.outbox,
+    rollupEventInbox: deployment.contracts.rollupEventInbox,
+    challengeManager: deployment.contracts.challengeManager,
     sequencerInbox: deployment.contracts.sequencerInbox,
     bridge: deployment.contracts.bridge,
     adminProxy: deployment.contracts.adminProxy,
+    upgradeExecutor: deployment.contracts.upgradeExecutor,
+    validatorWalletCreator: deployment.contracts.validatorWalletCreator,
     validators: deployment.validators,
     batchPoster: deployment.batchPoster,
     nativeToken: args.nativeToken,
@@ -220,11 +232,22 @@ async function main(): Promise<void> {
   console.log('Next Steps:');
   console.log('═══════════════════════════════════════════════');
   console.log('1. Verify contracts: npm run verify-contracts');
-  console.log('2. View on Etherscan:');
-  console.log(`   https://sepolia.etherscan.io/address/${deployment.contracts.rollup}`);
+  const rollupExplorerUrl = explorerAddressUrl(parentChain, deployment.contracts.rollup!);
+  if (rollupExplorerUrl) {
+    console.log('2. View on the block explorer:');
+    console.log(`   ${rollupExplorerUrl}`);
+  } else {
+    console.log('2. Check the rollup on your parent chain explorer');
+  }
   console.log('3. Set up your node with config/chain-' + deployment.chainId + '.json');
   console.log('4. Start sequencer and validator nodes');
   console.log('═══════════════════════════════════════════════\n');
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch((error) => {
+  if (error instanceof DeploymentSelectionError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  console.error(error);
+});
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { config } from 'dotenv';
+import { createPublicClient, http } from 'viem';
+import { registerCustomParentChainWithSdk, resolveParentChain } from '../src/chains/index.js';
+import { loadJournal } from '../src/journal/index.js';
+import { loadDeploymentManifest, ManifestValidationError } from '../src/manifest/index.js';
+import { PreflightError, runPreflightChecks } from '../src/preflight/index.js';
+import { hasFailures, printReport } from '../src/report/index.js';
+import { roleSignerAddresses, SignerError } from '../src/signer/index.js';
+
+config();
+
+function printUsage(): void {
+  console.log(`
+Usage: tsx scripts/preflight.ts [options]
+
+Checks a deployment against the parent chain before anything is sent, as
+npm run deploy does before deploying:
+
+  Chain       the chain ID is not deployed already, not a known chain's and
+              not a collision-prone default
+  Roles       validator and batch poster addresses are checksummed and match
+              the accounts their signers sign as; the roles have separate keys
+  Contracts   the RollupCreator has code and the createRollup the SDK calls;
+              a custom gas token has code
+  Parameters  WASM_ROOT is a consensus release in the bundled table, not zero and
+              not Arbitrum's in celestia mode; MAX_DATA_SIZE fits a parent chain
+              transaction
+
+Options:
+  --manifest <path>             Deployment manifest (env vars override its values)
+  --consensus-version <tag>     Consensus release whose wasm module root to use (default: CONSENSUS_VERSION)
+  --json                        Print the checks as JSON
+  --help, -h                    Show this help message
+
+Exit codes: 0 when no check failed, 1 when one did, 2 when the checks could not run.
+`);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    return;
+  }
+
+  const optionValue = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  const json = args.includes('--json');
+
+  if (!process.env.PARENT_CHAIN_RPC) {
+    throw new PreflightError('PARENT_CHAIN_RPC must be set in .env');
+  }
+
+  const consensusVersion = optionValue('--consensus-version');
+  const resolved = loadDeploymentManifest(optionValue('--manifest'), {
+    ...process.env,
+    ...(consensusVersion && { CONSENSUS_VERSION: consensusVersion }),
+  });
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: process.env.PARENT_CHAIN_RPC,
+    chainId: resolved.manifest.parentChainId,
+    isArbitrum: process.env.PARENT_CHAIN_IS_ARBITRUM === 'true',
+  });
+  registerCustomParentChainWithSdk(
+    parentChainInfo,
+    resolved.manifest.rollupCreator,
+    process.env.TOKEN_BRIDGE_CREATOR_ADDRESS
+  );
+
+  // npm run deploy resumes an unfinished journaled deployment instead of deploying again
+  const journal = loadJournal(resolved.manifest.chainId);
+  const checks = await runPreflightChecks({
+    resolved,
+    publicClient: createPublicClient({ chain: parentChainInfo.chain, transport: http(process.env.PARENT_CHAIN_RPC) }),
+    parentChainInfo,
+    signers: await roleSignerAddresses(),
+    resumedDeploymentFile: journal && !journal.steps['node-config-written'] ? journal.steps.parsed?.deploymentFile : undefined,
+  });
+
+  if (json) {
+    console.log(JSON.stringify({ ok: !hasFailures(checks), checks }, null, 2));
+  } else {
+    printReport('Preflight', checks);
+  }
+
+  process.exit(hasFailures(checks) ? 1 : 0);
+}
+
+main().catch((error) => {
+  if (
+    error instanceof PreflightError ||
+    error instanceof SignerError ||
+    error instanceof ManifestValidationError
+  ) {
+    console.error(`❌ Error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(2);
+});
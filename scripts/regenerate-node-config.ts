@@ -0,0 +1,154 @@
+import { config } from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { registerCustomParentChainWithSdk, resolveParentChain } from '../src/chains/index.js';
+import {
+  DeploymentSelectionError,
+  parseDeploymentSelector,
+  resolveDeployment,
+} from '../src/deployments/index.js';
+import { loadNodeConfigManifest, ManifestValidationError } from '../src/manifest/index.js';
+import {
+  changedConfigPaths,
+  chainConfigFromDeployment,
+  coreContractsFromDeployment,
+  NodeConfigError,
+  nodeSignerFromEnv,
+  prepareChainNodeConfig,
+} from '../src/node-config/index.js';
+import { stripNodeConfigSecrets, writeSecretFile } from '../src/secrets/index.js';
+import { checkRoleAddresses, roleSignerAddresses, SignerError } from '../src/signer/index.js';
+
+config();
+
+function printUsage(): void {
+  console.log(`
+Usage: tsx scripts/regenerate-node-config.ts [options]
+
+Rebuilds a chain's node config from its deployment file, without deploying
+again: the chain config is rebuilt from the recorded rollup parameters, the
+contract addresses are taken from the file, and the settings of the chain's
+DA mode are applied on top (for celestia: the da-provider, no AnyTrust DAS and
+no blob reader unless batches fall back to Ethereum).
+
+Signers and RPC URLs come from .env as for npm run deploy: the batch poster's
+and validator's key, keystore or remote signer (both default to the deployer's)
+and PARENT_CHAIN_RPC. Remote signers are written as Nitro external signers.
+The DA mode is the one recorded in the deployment file, else the manifest's;
+DA provider and DAS settings come from the manifest or DA_PROVIDER_* and
+DAS_SERVER_URL; the manifest's other fields are not needed.
+
+Options:
+  --chain-id <id>          Select the deployment by chain ID
+  --chain <name>           Select the deployment by chain name
+  --file <path>            Select a specific deployment file
+  --manifest <path>        Deployment manifest with the DA provider settings
+  --parent-chain-rpc <url> Parent chain RPC (default: PARENT_CHAIN_RPC)
+  --beacon-rpc <url>       Parent chain beacon RPC (default: the parent chain RPC)
+  --output <path>          Where to write the config (default: ./config/node-config-{chainId}.json)
+  --dry-run                Print the config (keys removed) and what changed, without writing
+  --help, -h               Show this help message
+`);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    return;
+  }
+
+  const optionValue = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  const dryRun = args.includes('--dry-run');
+
+  const { file, info } = resolveDeployment(parseDeploymentSelector(args));
+  const manifest = loadNodeConfigManifest(optionValue('--manifest'));
+
+  const parentChainRpcUrl = optionValue('--parent-chain-rpc') ?? process.env.PARENT_CHAIN_RPC;
+  if (!parentChainRpcUrl) {
+    throw new NodeConfigError('PARENT_CHAIN_RPC is not set; pass --parent-chain-rpc <url>');
+  }
+  const batchPoster = await nodeSignerFromEnv('batch-poster');
+  const validator = await nodeSignerFromEnv('validator');
+
+  // The rollup only accepts batches and assertions from the accounts it was created with
+  const roleSigners = await roleSignerAddresses();
+  checkRoleAddresses(
+    { batchPoster: info.batchPoster, validators: info.validators },
+    {
+      batchPoster: roleSigners['batch-poster'] ?? roleSigners.deployer!,
+      validator: roleSigners.validator ?? roleSigners.deployer!,
+    }
+  );
+
+  // Deployment files written before DA modes existed don't record one
+  const daMode = info.daMode ?? manifest.daMode;
+
+  console.log(`🔧 Regenerating node config for ${info.chainName} (${info.chainId})`);
+  console.log(`   Deployment: ${file}`);
+  console.log(`   DA mode: ${daMode}${info.daMode ? '' : ' (from the manifest)'}\n`);
+
+  // Also checks the RPC serves the chain the rollup was deployed on
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: parentChainRpcUrl,
+    chainId: info.parentChainId,
+    isArbitrum: process.env.PARENT_CHAIN_IS_ARBITRUM === 'true',
+  });
+  registerCustomParentChainWithSdk(parentChainInfo, manifest.rollupCreator, process.env.TOKEN_BRIDGE_CREATOR_ADDRESS);
+
+  const nodeConfig = prepareChainNodeConfig({
+    chainName: info.chainName,
+    chainConfig: chainConfigFromDeployment(info),
+    coreContracts: coreContractsFromDeployment(info),
+    batchPoster,
+    validator,
+    parentChainInfo,
+    parentChainRpcUrl,
+    parentChainBeaconRpcUrl: optionValue('--beacon-rpc') ?? parentChainRpcUrl,
+    daMode,
+    daProvider: manifest.daProvider,
+    dasServerUrl: manifest.anytrust?.dasServerUrl,
+  });
+
+  const outputPath = optionValue('--output') ?? `./config/node-config-${info.chainId}.json`;
+  if (existsSync(outputPath)) {
+    const changed = changedConfigPaths(JSON.parse(readFileSync(outputPath, 'utf-8')), nodeConfig);
+    if (changed.length === 0) {
+      console.log(`✅ ${outputPath} is up to date`);
+    } else {
+      console.log(`📝 Changes to ${outputPath}:`);
+      changed.forEach((path) => console.log(`   • ${path}`));
+    }
+    console.log();
+  }
+
+  if (dryRun) {
+    console.log('═══════════════════════════════════════════════');
+    console.log('Node Configuration (private keys removed):');
+    console.log('═══════════════════════════════════════════════');
+    console.log(JSON.stringify(stripNodeConfigSecrets(nodeConfig).config, null, 2));
+    console.log('\n✅ Dry run complete. Run without --dry-run to write the file.\n');
+    return;
+  }
+
+  // Holds the batch poster and validator keys, so only the owner may read it
+  writeSecretFile(outputPath, JSON.stringify(nodeConfig, null, 2));
+  console.log(`✅ Node configuration saved to: ${outputPath}`);
+  console.log('   Settings added afterwards (e.g. metrics from --with-monitoring) have to be applied again\n');
+}
+
+main().catch((error) => {
+  if (
+    error instanceof NodeConfigError ||
+    error instanceof SignerError ||
+    error instanceof DeploymentSelectionError ||
+    error instanceof ManifestValidationError
+  ) {
+    console.error(`❌ Error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
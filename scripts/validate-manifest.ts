@@ -0,0 +1,69 @@
+import { config } from 'dotenv';
+import {
+  loadDeploymentManifest,
+  manifestJsonSchema,
+  ManifestValidationError,
+  MANIFEST_FIELDS,
+} from '../src/manifest/index.js';
+import { formatNamespace } from '../src/namespace/index.js';
+
+config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: tsx scripts/validate-manifest.ts [options] [manifest]
+
+Validates a deployment manifest (JSON or YAML) and prints the resolved values.
+Environment variables override manifest values, exactly as in deploy-orbit.ts.
+
+Options:
+  --no-env      Ignore environment variables (validate the file on its own)
+  --schema      Print the manifest JSON schema and exit
+  --help, -h    Show this help message
+`);
+    return;
+  }
+
+  if (args.includes('--schema')) {
+    console.log(JSON.stringify(manifestJsonSchema(), null, 2));
+    return;
+  }
+
+  const manifestPath = args.find(arg => !arg.startsWith('--'));
+  const env = args.includes('--no-env') ? {} : process.env;
+
+  console.log('📄 Validating Deployment Manifest\n');
+  console.log(`Manifest: ${manifestPath ?? '(none, environment only)'}\n`);
+
+  const { manifest, sources } = loadDeploymentManifest(manifestPath, env);
+
+  console.log('Resolved Values:');
+  for (const field of MANIFEST_FIELDS) {
+    const value = field.path
+      .split('.')
+      .reduce<any>((entry, key) => entry?.[key], manifest);
+    if (value === undefined) {
+      continue;
+    }
+    const display = Array.isArray(value)
+      ? value.join(', ')
+      : field.type === 'namespace'
+        ? formatNamespace(value)
+        : String(value);
+    console.log(`  ${field.path.padEnd(36)} ${display} (${sources[field.path]})`);
+  }
+
+  console.log('\n✅ Manifest is valid');
+}
+
+main().catch((error) => {
+  if (error instanceof ManifestValidationError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,401 @@
+import { config } from 'dotenv';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { createPublicClient, getAddress, http, zeroAddress, type Address, type PublicClient } from 'viem';
+import { explorerAddressUrl, resolveParentChain } from '../src/chains/index.js';
+import { DeploymentSelectionError, parseDeploymentSelector, resolveDeployment } from '../src/deployments/index.js';
+import { createEtherscanClient, type EtherscanClient } from '../src/etherscan/index.js';
+
+config();
+
+// EIP-1967 implementation slot: bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+interface VerifiableContract {
+  key: string;
+  label: string;
+  // Candidate implementation contract names in nitro-contracts, ETH chains first
+  implementations: string[];
+  erc20Implementations?: string[];
+}
+
+const CORE_CONTRACTS: VerifiableContract[] = [
+  { key: 'rollup', label: 'Rollup', implementations: ['RollupAdminLogic'] },
+  { key: 'bridge', label: 'Bridge', implementations: ['Bridge'], erc20Implementations: ['ERC20Bridge'] },
+  { key: 'inbox', label: 'Inbox', implementations: ['Inbox'], erc20Implementations: ['ERC20Inbox'] },
+  { key: 'outbox', label: 'Outbox', implementations: ['Outbox'], erc20Implementations: ['ERC20Outbox'] },
+  { key: 'sequencerInbox', label: 'Sequencer Inbox', implementations: ['SequencerInbox'] },
+  {
+    key: 'rollupEventInbox',
+    label: 'Rollup Event Inbox',
+    implementations: ['RollupEventInbox'],
+    erc20Implementations: ['ERC20RollupEventInbox'],
+  },
+  { key: 'challengeManager', label: 'Challenge Manager', implementations: ['ChallengeManager', 'EdgeChallengeManager'] },
+  { key: 'upgradeExecutor', label: 'Upgrade Executor', implementations: ['UpgradeExecutor'] },
+  { key: 'adminProxy', label: 'Admin Proxy', implementations: ['ProxyAdmin'] },
+  { key: 'validatorUtils', label: 'Validator Utils', implementations: ['ValidatorUtils'] },
+  { key: 'validatorWalletCreator', label: 'Validator Wallet Creator', implementations: ['ValidatorWalletCreator'] },
+];
+
+// Hardhat build-info file, as produced when compiling nitro-contracts
+interface BuildInfo {
+  solcLongVersion: string;
+  input: unknown;
+  output: {
+    contracts: Record<string, Record<string, { evm?: { bytecode?: { object?: string } } }>>;
+  };
+}
+
+interface CompiledContract {
+  sourceName: string;
+  contractName: string;
+  compilerVersion: string;
+  standardJsonInput: string;
+  creationBytecode: string;
+}
+
+type StepStatus = 'verified' | 'already-verified' | 'submitted-failed' | 'skipped' | 'error';
+
+interface VerificationResult {
+  label: string;
+  address: Address;
+  implementation?: Address;
+  source: { status: StepStatus; message: string };
+  proxy?: { status: StepStatus; message: string };
+}
+
+function loadBuildInfo(dir: string): Map<string, CompiledContract> {
+  const contracts = new Map<string, CompiledContract>();
+
+  for (const file of readdirSync(dir).filter(f => f.endsWith('.json'))) {
+    const buildInfo: BuildInfo = JSON.parse(readFileSync(`${dir}/${file}`, 'utf8'));
+    if (!buildInfo.output?.contracts || !buildInfo.solcLongVersion) {
+      continue;
+    }
+
+    for (const [sourceName, byName] of Object.entries(buildInfo.output.contracts)) {
+      for (const [contractName, artifact] of Object.entries(byName)) {
+        if (contracts.has(contractName)) {
+          continue;
+        }
+        contracts.set(contractName, {
+          sourceName,
+          contractName,
+          compilerVersion: `v${buildInfo.solcLongVersion}`,
+          standardJsonInput: JSON.stringify(buildInfo.input),
+          creationBytecode: artifact.evm?.bytecode?.object ?? '',
+        });
+      }
+    }
+  }
+
+  return contracts;
+}
+
+async function getImplementation(publicClient: PublicClient, address: Address): Promise<Address | undefined> {
+  const slot = await publicClient.getStorageAt({ address, slot: EIP1967_IMPLEMENTATION_SLOT });
+  if (!slot) {
+    return undefined;
+  }
+  const implementation = getAddress(`0x${slot.slice(-40)}`);
+  return implementation === zeroAddress ? undefined : implementation;
+}
+
+// Recovers constructor arguments from the creation transaction when the
+// contract was deployed directly (not through a factory)
+async function getConstructorArguments(
+  publicClient: PublicClient,
+  etherscan: EtherscanClient,
+  address: Address,
+  creationBytecode: string
+): Promise<string> {
+  const creation = await etherscan.getContractCreation(address);
+  if (!creation?.txHash || !creationBytecode) {
+    return '';
+  }
+
+  const tx = await publicClient.getTransaction({ hash: creation.txHash as `0x${string}` });
+  const input = tx.input.slice(2);
+  if (tx.to !== null || !input.startsWith(creationBytecode)) {
+    return '';
+  }
+  return input.slice(creationBytecode.length);
+}
+
+interface VerifyOptions {
+  publicClient: PublicClient;
+  etherscan: EtherscanClient;
+  compiled?: Map<string, CompiledContract>;
+  usesCustomFeeToken: boolean;
+  skipProxy: boolean;
+}
+
+async function verifyContract(
+  contract: VerifiableContract,
+  address: Address,
+  options: VerifyOptions
+): Promise<VerificationResult> {
+  const { publicClient, etherscan } = options;
+
+  const code = await publicClient.getBytecode({ address });
+  if (!code || code === '0x') {
+    return {
+      label: contract.label,
+      address,
+      source: { status: 'error', message: 'no bytecode at address' },
+    };
+  }
+
+  const implementation = await getImplementation(publicClient, address);
+  const target = implementation ?? address;
+  const result: VerificationResult = {
+    label: contract.label,
+    address,
+    implementation,
+    source: await verifySource(contract, target, options),
+  };
+
+  // Link the proxy to its implementation
+  if (implementation) {
+    if (options.skipProxy) {
+      result.proxy = { status: 'skipped', message: '--skip-proxy' };
+    } else {
+      const outcome = await etherscan.verifyProxy(address, implementation);
+      result.proxy = {
+        status: outcome.status === 'verified' ? 'verified' : 'submitted-failed',
+        message: outcome.message,
+      };
+    }
+  }
+
+  return result;
+}
+
+// Source verification of the implementation (or the contract itself if it isn't a proxy)
+async function verifySource(
+  contract: VerifiableContract,
+  target: Address,
+  options: VerifyOptions
+): Promise<VerificationResult['source']> {
+  const { publicClient, etherscan, compiled } = options;
+
+  if (await etherscan.isVerified(target)) {
+    return { status: 'already-verified', message: 'source already verified' };
+  }
+  if (!compiled) {
+    return { status: 'skipped', message: 'not verified; pass --build-info to submit sources' };
+  }
+
+  const candidates = options.usesCustomFeeToken
+    ? [...(contract.erc20Implementations ?? []), ...contract.implementations]
+    : contract.implementations;
+  const match = candidates.map(name => compiled.get(name)).find(Boolean);
+
+  if (!match) {
+    return { status: 'skipped', message: `none of ${candidates.join(', ')} found in build info` };
+  }
+
+  const constructorArguments = await getConstructorArguments(
+    publicClient,
+    etherscan,
+    target,
+    match.creationBytecode
+  );
+  const outcome = await etherscan.verifySourceCode({
+    address: target,
+    sourceCode: match.standardJsonInput,
+    contractName: `${match.sourceName}:${match.contractName}`,
+    compilerVersion: match.compilerVersion,
+    constructorArguments,
+  });
+
+  return {
+    status: outcome.status === 'verified' ? 'verified' : 'submitted-failed',
+    message: outcome.message,
+  };
+}
+
+function statusIcon(status: StepStatus): string {
+  switch (status) {
+    case 'verified':
+    case 'already-verified':
+      return '✅';
+    case 'skipped':
+      return '⏭️ ';
+    default:
+      return '❌';
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: tsx scripts/verify-contracts.ts [options]
+
+Verifies the core contracts of a deployment on an Etherscan-compatible explorer.
+Proxies are linked to their implementations; implementation sources are
+submitted when a directory of Hardhat build-info files is provided.
+
+Options:
+  --chain-id <id>        Deployment to use, by chain ID
+  --chain <name>         Deployment to use, by chain name
+  --file <path>          Deployment file (default: the only chain in deployments/)
+  --api-url <url>        Etherscan-compatible API URL (default: ETHERSCAN_API_URL or Etherscan v2)
+  --build-info <dir>     nitro-contracts build-info directory, for source verification
+  --only <keys>          Comma-separated contract keys to verify (e.g. rollup,bridge)
+  --skip-proxy           Don't submit proxy verification
+  --poll-interval <ms>   Delay between status checks (default: 5000)
+  --help, -h             Show this help message
+
+Environment:
+  PARENT_CHAIN_RPC       Parent chain RPC, used to read proxy implementations
+  ETHERSCAN_API_KEY      Explorer API key
+  ETHERSCAN_API_URL      Explorer API URL (overridden by --api-url)
+`);
+    return;
+  }
+
+  const selector = parseDeploymentSelector(args);
+
+  const apiUrlIndex = args.indexOf('--api-url');
+  const apiUrl = apiUrlIndex !== -1 ? args[apiUrlIndex + 1] : process.env.ETHERSCAN_API_URL || undefined;
+
+  const buildInfoIndex = args.indexOf('--build-info');
+  const buildInfoDir = buildInfoIndex !== -1 ? args[buildInfoIndex + 1] : undefined;
+
+  const onlyIndex = args.indexOf('--only');
+  const only = onlyIndex !== -1 ? args[onlyIndex + 1].split(',').map(key => key.trim()) : undefined;
+
+  const pollIntervalIndex = args.indexOf('--poll-interval');
+  const pollIntervalMs = pollIntervalIndex !== -1 ? parseInt(args[pollIntervalIndex + 1], 10) : undefined;
+
+  const skipProxy = args.includes('--skip-proxy');
+
+  if (!process.env.PARENT_CHAIN_RPC) {
+    throw new Error('PARENT_CHAIN_RPC not set in .env');
+  }
+  if (buildInfoDir && !existsSync(buildInfoDir)) {
+    throw new Error(`Build info directory not found: ${buildInfoDir}`);
+  }
+
+  console.log('🔍 Verifying Deployed Contracts\n');
+  console.log('═══════════════════════════════════════════════\n');
+
+  const { file: deploymentFile, info: deployment } = resolveDeployment(selector);
+  console.log(`Reading: ${deploymentFile}\n`);
+
+  const parentChainInfo = await resolveParentChain({
+    rpcUrl: process.env.PARENT_CHAIN_RPC,
+    chainId: deployment.parentChainId,
+  });
+  const parentChain = parentChainInfo.chain;
+
+  const publicClient = createPublicClient({
+    chain: parentChain,
+    transport: http(process.env.PARENT_CHAIN_RPC),
+  });
+
+  const etherscan = createEtherscanClient({
+    apiUrl,
+    apiKey: process.env.ETHERSCAN_API_KEY,
+    chainId: parentChain.id,
+    pollIntervalMs,
+  });
+
+  if (!process.env.ETHERSCAN_API_KEY) {
+    console.log('⚠️  ETHERSCAN_API_KEY not set, requests may be rejected or rate limited\n');
+  }
+
+  const compiled = buildInfoDir ? loadBuildInfo(buildInfoDir) : undefined;
+  const usesCustomFeeToken = Boolean(deployment.nativeToken) && deployment.nativeToken !== zeroAddress;
+
+  console.log('Configuration:');
+  console.log(`  Chain ID: ${deployment.chainId}`);
+  console.log(`  Parent Chain: ${parentChain.name} (${parentChain.id})`);
+  console.log(`  Explorer API: ${etherscan.apiUrl}`);
+  console.log(`  Build Info: ${buildInfoDir ?? '(none, proxy verification only)'}`);
+  console.log();
+
+  const contracts = deployment.contracts as Record<string, string | undefined>;
+  const results: VerificationResult[] = [];
+
+  for (const contract of CORE_CONTRACTS) {
+    if (only && !only.includes(contract.key)) {
+      continue;
+    }
+
+    const address = contracts[contract.key];
+    if (!address) {
+      continue;
+    }
+
+    console.log(`⏳ ${contract.label} (${address})...`);
+    try {
+      results.push(
+        await verifyContract(contract, getAddress(address), {
+          publicClient,
+          etherscan,
+          compiled,
+          usesCustomFeeToken,
+          skipProxy,
+        })
+      );
+    } catch (error: any) {
+      results.push({
+        label: contract.label,
+        address: getAddress(address),
+        source: { status: 'error', message: error.message },
+      });
+    }
+  }
+
+  if (results.length === 0) {
+    console.error('\n❌ No contract addresses found in the deployment file');
+    console.log('Run npm run parse-deployment first');
+    process.exit(1);
+  }
+
+  console.log();
+  console.log('═══════════════════════════════════════════════');
+  console.log('Verification Results:');
+  console.log('═══════════════════════════════════════════════');
+  for (const result of results) {
+    console.log(`${result.label}: ${result.address}`);
+    if (result.implementation) {
+      console.log(`  Implementation: ${result.implementation}`);
+    }
+    console.log(`  ${statusIcon(result.source.status)} Source: ${result.source.message}`);
+    if (result.proxy) {
+      console.log(`  ${statusIcon(result.proxy.status)} Proxy: ${result.proxy.message}`);
+    }
+    const explorerUrl = explorerAddressUrl(parentChain, result.address);
+    if (explorerUrl) {
+      console.log(`  ${explorerUrl}#code`);
+    }
+  }
+  console.log('═══════════════════════════════════════════════\n');
+
+  const failed = results.filter(
+    result =>
+      ['error', 'submitted-failed'].includes(result.source.status) ||
+      (result.proxy && ['error', 'submitted-failed'].includes(result.proxy.status))
+  );
+
+  if (failed.length > 0) {
+    console.error(`❌ ${failed.length} contract(s) failed verification`);
+    process.exit(1);
+  }
+
+  console.log('✅ Verification complete!\n');
+}
+
+main().catch((error) => {
+  if (error instanceof DeploymentSelectionError) {
+    console.error(`\n❌ ${error.message}`);
+  } else {
+    console.error('\n❌ Verification failed:', error);
+  }
+  process.exit(1);
+});
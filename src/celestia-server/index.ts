@@ -0,0 +1,98 @@
+import { namespaceSubId } from '../namespace/index.js';
+import type { CelestiaNamespace } from '../types/index.js';
+
+export const DEFAULT_NITRO_IMAGE = 'ghcr.io/celestiaorg/nitro:v3.6.8';
+export const DEFAULT_CELESTIA_SERVER_IMAGE = 'ghcr.io/celestiaorg/nitro-das-celestia:v0.6.3-mocha';
+
+// Ports celestia-server listens on; Nitro's da-provider talks to the RPC port
+export const CELESTIA_SERVER_PORTS = [1317, 9090, 26657, 1095, 8080];
+export const CELESTIA_SERVER_RPC_PORT = 26657;
+// Only reachable inside the network, for Prometheus
+export const CELESTIA_SERVER_METRICS_PORT = 6070;
+
+// Environment variables the tokens are passed in when kept out of the command line
+export const CELESTIA_CORE_TOKEN_ENV = 'CELESTIA_CORE_TOKEN';
+export const CELESTIA_AUTH_TOKEN_ENV = 'CELESTIA_AUTH_TOKEN';
+
+export interface CelestiaServerOptions {
+  rpcEndpoint?: string;
+  coreNetwork?: string;
+  coreToken?: string;
+  coreUrl?: string;
+  enableCoreTls?: boolean;
+  authToken?: string;
+  // Serve Prometheus metrics on CELESTIA_SERVER_METRICS_PORT
+  metrics?: boolean;
+}
+
+export type CelestiaServerSettings = Required<CelestiaServerOptions>;
+
+export function celestiaServerSettings(options: CelestiaServerOptions): CelestiaServerSettings {
+  return {
+    rpcEndpoint: options.rpcEndpoint || 'http://0.0.0.0:26658/',
+    coreNetwork: options.coreNetwork || 'mocha-4',
+    coreToken: options.coreToken || '',
+    coreUrl: options.coreUrl || '',
+    enableCoreTls: options.enableCoreTls !== false,
+    authToken: options.authToken || '',
+    metrics: options.metrics === true,
+  };
+}
+
+export interface CelestiaServerCommand {
+  command: string[];
+  // Token values by env name; empty unless tokens are passed by reference
+  secrets: Record<string, string>;
+}
+
+/**
+ * Builds the celestia-server command line. Without `tokenReference` the tokens
+ * are inlined; with it they are replaced by a reference to an environment
+ * variable (e.g. `$(NAME)` in Kubernetes) and returned in `secrets`.
+ */
+export function celestiaServerCommand(
+  settings: CelestiaServerSettings,
+  namespace: CelestiaNamespace,
+  tokenReference?: (env: string) => string
+): CelestiaServerCommand {
+  const secrets: Record<string, string> = {};
+  const token = (env: string, value: string): string => {
+    if (!tokenReference) {
+      return value;
+    }
+    secrets[env] = value;
+    return tokenReference(env);
+  };
+
+  const command = ['/bin/celestia-server', '--celestia.experimental-tx-client', '--celestia.core-network', settings.coreNetwork];
+  if (settings.coreToken) {
+    command.push('--celestia.core-token', token(CELESTIA_CORE_TOKEN_ENV, settings.coreToken));
+  }
+  if (settings.coreUrl) {
+    command.push('--celestia.core-url', settings.coreUrl);
+  }
+  if (settings.enableCoreTls) {
+    command.push('--celestia.enable-core-tls');
+  }
+  if (settings.metrics) {
+    command.push('--metrics', '--metrics-server.addr', '0.0.0.0', '--metrics-server.port', String(CELESTIA_SERVER_METRICS_PORT));
+  }
+  command.push(
+    '--celestia.with-writer',
+    '--celestia.namespace-id',
+    namespaceSubId(namespace),
+    '--rpc-addr',
+    '0.0.0.0',
+    '--rpc-port',
+    String(CELESTIA_SERVER_RPC_PORT),
+    '--celestia.rpc',
+    settings.rpcEndpoint,
+    '--log-level',
+    'DEBUG',
+    // Always passed, empty when the node needs no auth
+    '--celestia.auth-token',
+    settings.authToken ? token(CELESTIA_AUTH_TOKEN_ENV, settings.authToken) : ''
+  );
+
+  return { command, secrets };
+}
@@ -0,0 +1,174 @@
+import { registerCustomParentChain } from '@arbitrum/orbit-sdk';
+import { nitroTestnodeL1, nitroTestnodeL2 } from '@arbitrum/orbit-sdk/chains';
+import {
+  createPublicClient,
+  defineChain,
+  http,
+  isAddress,
+  type Address,
+  type Chain,
+} from 'viem';
+import {
+  arbitrum,
+  arbitrumNova,
+  arbitrumSepolia,
+  base,
+  baseSepolia,
+  holesky,
+  mainnet,
+  sepolia,
+} from 'viem/chains';
+
+export const DEFAULT_PARENT_CHAIN_ID = sepolia.id;
+
+export interface ParentChainInfo {
+  // Short name recorded as DeploymentInfo.parentChain
+  name: string;
+  chain: Chain;
+  isArbitrum: boolean;
+  // True when the chain is not one of the Orbit SDK's built-in parent chains
+  isCustom: boolean;
+  faucetUrl?: string;
+}
+
+const KNOWN_PARENT_CHAINS: Omit<ParentChainInfo, 'isCustom'>[] = [
+  { name: 'ethereum', chain: mainnet, isArbitrum: false },
+  { name: 'arbitrum-one', chain: arbitrum, isArbitrum: true },
+  { name: 'arbitrum-nova', chain: arbitrumNova, isArbitrum: true },
+  { name: 'base', chain: base, isArbitrum: false },
+  { name: 'sepolia', chain: sepolia, isArbitrum: false, faucetUrl: 'https://sepoliafaucet.com/' },
+  { name: 'holesky', chain: holesky, isArbitrum: false, faucetUrl: 'https://holesky-faucet.pk910.de/' },
+  {
+    name: 'arbitrum-sepolia',
+    chain: arbitrumSepolia,
+    isArbitrum: true,
+    faucetUrl: 'https://faucets.chain.link/arbitrum-sepolia',
+  },
+  {
+    name: 'base-sepolia',
+    chain: baseSepolia,
+    isArbitrum: false,
+    faucetUrl: 'https://www.alchemy.com/faucets/base-sepolia',
+  },
+  { name: 'nitro-testnode-l1', chain: nitroTestnodeL1, isArbitrum: false },
+  { name: 'nitro-testnode-l2', chain: nitroTestnodeL2, isArbitrum: true },
+];
+
+// Parameters the Orbit SDK cannot default for parent chains it doesn't know
+export const CUSTOM_PARENT_CHAIN_DEFAULTS = {
+  confirmPeriodBlocks: 150n,
+  sequencerInboxMaxTimeVariation: {
+    delayBlocks: 5_760n,
+    futureBlocks: 48n,
+    delaySeconds: 86_400n,
+    futureSeconds: 3_600n,
+  },
+};
+
+export function getKnownParentChains(): ParentChainInfo[] {
+  return KNOWN_PARENT_CHAINS.map((entry) => ({ ...entry, isCustom: false }));
+}
+
+export function findKnownParentChain(chainId: number): ParentChainInfo | undefined {
+  return getKnownParentChains().find((entry) => entry.chain.id === chainId);
+}
+
+export interface ResolveParentChainOptions {
+  rpcUrl: string;
+  // Expected chain ID (PARENT_CHAIN_ID); read from the RPC when omitted
+  chainId?: number;
+  // Only consulted for chains that are not in the registry
+  isArbitrum?: boolean;
+}
+
+/**
+ * Resolves the parent chain behind an RPC URL. Known chains come from the
+ * registry above; any other chain ID is turned into a custom viem chain
+ * pointing at that RPC.
+ */
+export async function resolveParentChain(options: ResolveParentChainOptions): Promise<ParentChainInfo> {
+  const rpcChainId = await createPublicClient({ transport: http(options.rpcUrl) }).getChainId();
+
+  if (options.chainId !== undefined && options.chainId !== rpcChainId) {
+    throw new Error(
+      `PARENT_CHAIN_ID is ${options.chainId} but the RPC at ${options.rpcUrl} reports chain ${rpcChainId}`
+    );
+  }
+
+  const known = findKnownParentChain(rpcChainId);
+  if (known) {
+    return {
+      ...known,
+      chain: {
+        ...known.chain,
+        rpcUrls: {
+          ...known.chain.rpcUrls,
+          default: { http: [options.rpcUrl] },
+        },
+      },
+    };
+  }
+
+  const chain = defineChain({
+    id: rpcChainId,
+    network: `custom-${rpcChainId}`,
+    name: `Custom Chain ${rpcChainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: {
+      default: { http: [options.rpcUrl] },
+      public: { http: [options.rpcUrl] },
+    },
+  });
+
+  return {
+    name: `custom-${rpcChainId}`,
+    chain,
+    isArbitrum: options.isArbitrum ?? false,
+    isCustom: true,
+  };
+}
+
+/**
+ * The Orbit SDK refuses to prepare deployments on parent chains it doesn't
+ * know, so custom chains have to be registered along with the RollupCreator
+ * and TokenBridgeCreator addresses to use there.
+ */
+export function registerCustomParentChainWithSdk(
+  parentChain: ParentChainInfo,
+  rollupCreator: string | undefined,
+  tokenBridgeCreator: string | undefined
+): void {
+  if (!parentChain.isCustom) {
+    return;
+  }
+
+  const chainId = parentChain.chain.id;
+  if (!rollupCreator || !isAddress(rollupCreator)) {
+    throw new Error(`Parent chain ${chainId} is not in the registry; ROLLUP_CREATOR_ADDRESS must be set`);
+  }
+  if (!tokenBridgeCreator || !isAddress(tokenBridgeCreator)) {
+    throw new Error(`Parent chain ${chainId} is not in the registry; TOKEN_BRIDGE_CREATOR_ADDRESS must be set`);
+  }
+
+  registerCustomParentChain({
+    ...parentChain.chain,
+    contracts: {
+      rollupCreator: { address: rollupCreator as Address },
+      tokenBridgeCreator: { address: tokenBridgeCreator as Address },
+    },
+  });
+}
+
+export function getExplorerUrl(chain: Chain): string | undefined {
+  return chain.blockExplorers?.default.url;
+}
+
+export function explorerTxUrl(chain: Chain, hash: string): string | undefined {
+  const explorer = getExplorerUrl(chain);
+  return explorer ? `${explorer}/tx/${hash}` : undefined;
+}
+
+export function explorerAddressUrl(chain: Chain, address: string): string | undefined {
+  const explorer = getExplorerUrl(chain);
+  return explorer ? `${explorer}/address/${address}` : undefined;
+}
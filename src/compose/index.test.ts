@@ -0,0 +1,138 @@
+import assert from 'assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+import { parse as parseYaml } from 'yaml';
+import { mergeComposeFile, serializeComposeFile, type ComposeFile } from './index.js';
+
+// Tokens a hand-rolled emitter would break: quotes, mapping indicators and comment markers
+const TOKENS = ['abc"def', 'key: value', 'token #not-a-comment', '#leading', "it's", '- dash', 'no', '22:22'];
+
+function compose(overrides: Partial<ComposeFile['services'][string]> = {}): ComposeFile {
+  return {
+    name: 'orbit-my-chain',
+    services: {
+      'celestia-server': {
+        image: 'ghcr.io/celestiaorg/nitro-das-celestia:v0.6.0',
+        command: ['--celestia.auth-token', TOKENS[0], '--celestia.namespace-id', TOKENS[2]],
+        ports: ['26658:26658'],
+        restart: 'no',
+      },
+      'nitro-celestia-node': {
+        image: 'ghcr.io/celestiaorg/nitro:v3.6.8',
+        ports: ['8547:8449'],
+        depends_on: { 'celestia-server': { condition: 'service_healthy' } },
+        healthcheck: { test: ['CMD', 'true'], interval: '10s' },
+        restart: 'unless-stopped',
+        ...overrides,
+      },
+    },
+    volumes: { 'celestia-keys': null },
+  };
+}
+
+describe('serializeComposeFile', () => {
+  it('round-trips values containing quotes, colons and hashes', () => {
+    const original: ComposeFile = {
+      services: {
+        node: {
+          image: 'nitro',
+          command: TOKENS,
+          environment: Object.fromEntries(TOKENS.map((token, index) => [`TOKEN_${index}`, token])),
+          labels: { 'com.example/description': 'a: "b" # c' },
+        },
+      },
+    };
+
+    const yaml = serializeComposeFile(original, 'Generated for tests');
+
+    assert.deepEqual(parseYaml(yaml), original);
+  });
+
+  it('double-quotes port mappings and restart: "no"', () => {
+    const yaml = serializeComposeFile(compose());
+
+    assert.match(yaml, /- "26658:26658"/);
+    assert.match(yaml, /restart: "no"/);
+  });
+});
+
+describe('mergeComposeFile', () => {
+  let dir: string;
+  let file: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orbit-compose-'));
+    file = join(dir, 'docker-compose.yml');
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  function write(text: string): void {
+    writeFileSync(file, text);
+  }
+
+  it('keeps comments, hand-added keys and services', () => {
+    write(serializeComposeFile(compose(), 'Generated') + '\n# Added by hand\nx-notes: keep me\n');
+    const text = mergeComposeFile(file, compose()).text
+      .replace('  nitro-celestia-node:\n', '  # the sequencer\n  nitro-celestia-node:\n    labels:\n      team: ops\n');
+    write(text.replace('services:\n', 'services:\n  grafana:\n    image: grafana/grafana # pinned later\n\n'));
+
+    const { text: merged, replaced } = mergeComposeFile(file, compose(), { header: 'Generated' });
+
+    assert.deepEqual(replaced, []);
+    assert.match(merged, /^# Generated\n/);
+    assert.match(merged, /# the sequencer\n  nitro-celestia-node:/);
+    assert.match(merged, /image: grafana\/grafana # pinned later/);
+    assert.match(merged, /# Added by hand\nx-notes: keep me/);
+    assert.deepEqual(parseYaml(merged).services['nitro-celestia-node'].labels, { team: 'ops' });
+  });
+
+  it('replaces owned keys and reports the ones whose values differed', () => {
+    write(serializeComposeFile(compose()).replace('- "8547:8449"', '- "9547:8449" # moved off 8547'));
+
+    const { text, replaced } = mergeComposeFile(file, compose({ healthcheck: undefined, depends_on: undefined }));
+    const service = parseYaml(text).services['nitro-celestia-node'];
+
+    assert.deepEqual(replaced, [
+      'nitro-celestia-node.ports',
+      'nitro-celestia-node.depends_on',
+      'nitro-celestia-node.healthcheck',
+    ]);
+    assert.deepEqual(service.ports, ['8547:8449']);
+    assert.equal(service.healthcheck, undefined);
+    assert.equal(service.depends_on, undefined);
+    assert.match(text, /- "8547:8449"/);
+  });
+
+  it('removes the services it is told to and adds new ones', () => {
+    write(serializeComposeFile(compose()));
+    const generated = compose();
+    delete generated.services['celestia-server'];
+    generated.services.prometheus = { image: 'prom/prometheus', command: [TOKENS[1], TOKENS[3]] };
+
+    const { text } = mergeComposeFile(file, generated, { removeServices: ['celestia-server'] });
+
+    assert.deepEqual(Object.keys(parseYaml(text).services), ['nitro-celestia-node', 'prometheus']);
+    assert.deepEqual(parseYaml(text).services.prometheus.command, [TOKENS[1], TOKENS[3]]);
+    assert.match(text, /\n\n  prometheus:/);
+  });
+
+  it('merges generated environment entries into a KEY=value list', () => {
+    write('services:\n  node:\n    image: nitro\n    environment:\n      - LOG_LEVEL=debug\n');
+
+    const { text } = mergeComposeFile(file, { services: { node: { image: 'nitro', environment: { TOKEN: TOKENS[0] } } } });
+
+    assert.deepEqual(parseYaml(text).services.node.environment, {
+      LOG_LEVEL: 'debug',
+      TOKEN: TOKENS[0],
+    });
+  });
+
+  it('rejects files without a services map', () => {
+    write('version: "3"\n');
+
+    assert.throws(() => mergeComposeFile(file, compose()), /is not a compose file/);
+  });
+});
@@ -0,0 +1,474 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { isDeepStrictEqual } from 'util';
+import { Document, isMap, isPair, isScalar, isSeq, parse as parseYaml, parseDocument, Scalar, type YAMLMap } from 'yaml';
+
+// Typed subset of the Compose specification. Keys this model doesn't know
+// about are carried through untouched, so a file read from disk round-trips.
+
+export interface ComposeHealthcheck {
+  test: string[] | string;
+  interval?: string;
+  timeout?: string;
+  retries?: number;
+  start_period?: string;
+  disable?: boolean;
+}
+
+export interface ComposeDependency {
+  condition: 'service_started' | 'service_healthy' | 'service_completed_successfully';
+  restart?: boolean;
+  required?: boolean;
+}
+
+export const COMPOSE_RESTART_POLICIES = ['no', 'always', 'on-failure', 'unless-stopped'] as const;
+export type ComposeRestartPolicy = (typeof COMPOSE_RESTART_POLICIES)[number];
+
+export interface ComposeLogging {
+  driver?: string;
+  options?: Record<string, string>;
+}
+
+export interface ComposeResourceLimits {
+  cpus?: string;
+  memory?: string;
+}
+
+export interface ComposeDeploy {
+  resources?: {
+    limits?: ComposeResourceLimits;
+    reservations?: ComposeResourceLimits;
+  };
+  [key: string]: unknown;
+}
+
+export interface ComposeService {
+  image?: string;
+  container_name?: string;
+  entrypoint?: string[] | string;
+  command?: string[] | string;
+  environment?: Record<string, string>;
+  env_file?: string[] | string;
+  ports?: string[];
+  volumes?: string[];
+  depends_on?: string[] | Record<string, ComposeDependency>;
+  healthcheck?: ComposeHealthcheck;
+  networks?: string[] | Record<string, Record<string, unknown> | null>;
+  restart?: ComposeRestartPolicy;
+  logging?: ComposeLogging;
+  deploy?: ComposeDeploy;
+  [key: string]: unknown;
+}
+
+export interface ComposeNetwork {
+  driver?: string;
+  external?: boolean;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface ComposeVolume {
+  driver?: string;
+  external?: boolean;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface ComposeFile {
+  name?: string;
+  services: Record<string, ComposeService>;
+  networks?: Record<string, ComposeNetwork | null>;
+  volumes?: Record<string, ComposeVolume | null>;
+  [key: string]: unknown;
+}
+
+export class ComposeFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComposeFileError';
+  }
+}
+
+export class ComposeConflictError extends Error {
+  constructor(message: string, readonly conflicts: string[]) {
+    super(message);
+    this.name = 'ComposeConflictError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Compose accepts environment as a map or as a list of KEY=value entries
+function normalizeEnvironment(environment: unknown): Record<string, string> | undefined {
+  if (environment === undefined || environment === null) {
+    return undefined;
+  }
+  if (Array.isArray(environment)) {
+    return Object.fromEntries(
+      environment.map((entry) => {
+        const text = String(entry);
+        const separator = text.indexOf('=');
+        return separator === -1 ? [text, ''] : [text.slice(0, separator), text.slice(separator + 1)];
+      })
+    );
+  }
+  if (isPlainObject(environment)) {
+    return Object.fromEntries(
+      Object.entries(environment).map(([key, value]) => [key, value === null ? '' : String(value)])
+    );
+  }
+  throw new ComposeFileError('environment must be a map or a list of KEY=value entries');
+}
+
+/**
+ * Reads an existing compose file, or returns undefined if there is none.
+ * Environment lists are normalized to maps so they can be merged.
+ */
+export function readComposeFile(path: string): ComposeFile | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(readFileSync(path, 'utf8'));
+  } catch (error: any) {
+    throw new ComposeFileError(`${path} is not valid YAML: ${error.message}`);
+  }
+
+  if (!isPlainObject(parsed) || !isPlainObject(parsed.services)) {
+    throw new ComposeFileError(`${path} is not a compose file (no services map)`);
+  }
+
+  const services: Record<string, ComposeService> = {};
+  for (const [name, service] of Object.entries(parsed.services)) {
+    if (!isPlainObject(service)) {
+      throw new ComposeFileError(`${path}: service ${name} must be a map`);
+    }
+    const environment = normalizeEnvironment(service.environment);
+    services[name] = { ...service, ...(environment && { environment }) };
+  }
+
+  return { ...parsed, services } as ComposeFile;
+}
+
+// Service keys the generator owns. A regenerated service replaces them wholesale
+// and drops the ones it no longer emits, e.g. healthcheck after --no-healthchecks.
+const GENERATED_SERVICE_KEYS = new Set([
+  'image',
+  'container_name',
+  'entrypoint',
+  'command',
+  'env_file',
+  'ports',
+  'volumes',
+  'depends_on',
+  'healthcheck',
+  'restart',
+  'logging',
+  'deploy',
+]);
+
+function plain<T>(value: T): T {
+  // Drops undefined entries so optional fields don't render as empty keys
+  return JSON.parse(JSON.stringify(value));
+}
+
+function headerComment(header: string): string {
+  return header
+    .split('\n')
+    .map((line) => (line ? ` ${line}` : ''))
+    .join('\n');
+}
+
+// YAML 1.1 parsers read an unquoted 22:22 as a base-60 number and no as false
+function quoteAmbiguousScalars(service: unknown): void {
+  if (!isMap(service)) {
+    return;
+  }
+  const restart = service.get('restart', true);
+  if (isScalar(restart) && restart.value === 'no') {
+    restart.type = Scalar.QUOTE_DOUBLE;
+  }
+  const ports = service.get('ports');
+  if (isSeq(ports)) {
+    for (const port of ports.items) {
+      if (isScalar(port) && typeof port.value === 'string') {
+        port.type = Scalar.QUOTE_DOUBLE;
+      }
+    }
+  }
+}
+
+// Sets a key of a map node, separated by a blank line when it is new
+function setEntry(document: Document, map: YAMLMap, key: string, value: unknown, spaced = false): void {
+  if (map.has(key)) {
+    map.set(key, document.createNode(value));
+    return;
+  }
+  const pair = document.createPair(key, value);
+  if (spaced && isScalar(pair.key)) {
+    pair.key.spaceBefore = true;
+  }
+  map.add(pair);
+}
+
+// Adds the generated networks or volumes; keys of a definition that exists in both are merged
+function mergeDefinitions(
+  document: Document,
+  root: YAMLMap,
+  key: 'networks' | 'volumes',
+  generated: Record<string, unknown> | undefined
+): void {
+  if (!generated) {
+    return;
+  }
+  const definitions = root.get(key, true);
+  if (!isMap(definitions)) {
+    setEntry(document, root, key, generated, true);
+    return;
+  }
+  for (const [name, definition] of Object.entries(generated)) {
+    const current = definitions.get(name, true);
+    if (!definitions.has(name)) {
+      setEntry(document, definitions, name, definition);
+    } else if (isMap(current) && isPlainObject(definition)) {
+      const currentValue = current.toJS(document);
+      for (const [field, value] of Object.entries(definition)) {
+        if (!isDeepStrictEqual(currentValue[field], value)) {
+          setEntry(document, current, field, value);
+        }
+      }
+    }
+  }
+}
+
+// Updates a generated service in place and returns the owned keys whose values it replaced
+function mergeService(document: Document, service: YAMLMap, generated: ComposeService): string[] {
+  const current = service.toJS(document) as ComposeService;
+  const replaced: string[] = [];
+
+  for (const key of new Set([...Object.keys(current), ...Object.keys(generated)])) {
+    const value = generated[key];
+    if (GENERATED_SERVICE_KEYS.has(key)) {
+      if (isDeepStrictEqual(current[key], value)) {
+        continue;
+      }
+      if (key in current) {
+        replaced.push(key);
+      }
+      if (value === undefined) {
+        service.delete(key);
+      } else {
+        setEntry(document, service, key, value);
+      }
+    } else if (value !== undefined) {
+      // Maps the generator shares with hand edits (environment, ...) merge key by key
+      const node = service.get(key, true);
+      const currentValue = key === 'environment' ? normalizeEnvironment(current[key]) : current[key];
+      if (isMap(node) && isPlainObject(value)) {
+        for (const [field, fieldValue] of Object.entries(value)) {
+          if (!isDeepStrictEqual((currentValue as Record<string, unknown>)[field], fieldValue)) {
+            setEntry(document, node, field, fieldValue);
+          }
+        }
+      } else if (isPlainObject(currentValue) && isPlainObject(value)) {
+        setEntry(document, service, key, { ...currentValue, ...value });
+      } else if (!isDeepStrictEqual(currentValue, value)) {
+        setEntry(document, service, key, value);
+      }
+    }
+  }
+  return replaced;
+}
+
+export interface ComposeMergeOptions {
+  header?: string;
+  // Services of the existing file to drop, e.g. node services of a previous topology
+  removeServices?: string[];
+}
+
+export interface ComposeMerge {
+  text: string;
+  // Generator-owned keys whose existing values were replaced or removed, as <service>.<key>
+  replaced: string[];
+}
+
+/**
+ * Merges a freshly generated compose file into an existing one, editing its
+ * YAML in place so comments and formatting survive. Everything the generator
+ * doesn't produce is kept: other services, networks, volumes and keys added by
+ * hand to a generated service. The keys the generator owns (image, ports,
+ * healthcheck, deploy, ...) are taken from the generated service only, so
+ * settings it no longer emits don't linger; the ones whose values differed are
+ * returned so they can be reported.
+ */
+export function mergeComposeFile(path: string, generated: ComposeFile, options: ComposeMergeOptions = {}): ComposeMerge {
+  const document = parseDocument(readFileSync(path, 'utf8'));
+  if (document.errors.length > 0) {
+    throw new ComposeFileError(`${path} is not valid YAML: ${document.errors[0].message}`);
+  }
+  const root = document.contents;
+  const services = isMap(root) ? root.get('services', true) : undefined;
+  if (!isMap(root) || !isMap(services)) {
+    throw new ComposeFileError(`${path} is not a compose file (no services map)`);
+  }
+
+  for (const name of options.removeServices ?? []) {
+    services.delete(name);
+  }
+
+  const replaced: string[] = [];
+  const { services: generatedServices, networks, volumes, ...rest } = plain(generated);
+  for (const [name, service] of Object.entries(generatedServices)) {
+    const current = services.get(name, true);
+    if (isMap(current)) {
+      replaced.push(...mergeService(document, current, service).map((key) => `${name}.${key}`));
+    } else {
+      setEntry(document, services, name, service, services.items.length > 0);
+    }
+    quoteAmbiguousScalars(services.get(name, true));
+  }
+
+  const rootValue = root.toJS(document);
+  for (const [key, value] of Object.entries(rest)) {
+    if (!isDeepStrictEqual(rootValue[key], value)) {
+      setEntry(document, root, key, value, true);
+    }
+  }
+  mergeDefinitions(document, root, 'networks', networks as Record<string, unknown> | undefined);
+  mergeDefinitions(document, root, 'volumes', volumes as Record<string, unknown> | undefined);
+
+  if (options.header) {
+    const header = headerComment(options.header);
+    const comment = document.commentBefore ?? '';
+    if (!comment.startsWith(header)) {
+      // An older generator's header is replaced; comments of the user's own are kept below ours
+      const firstLine = header.split('\n')[0];
+      document.commentBefore = comment.startsWith(firstLine) || !comment ? header : `${header}\n\n${comment}`;
+    }
+  }
+
+  return { text: document.toString({ lineWidth: 0, nullStr: '' }), replaced };
+}
+
+/**
+ * Serializes a compose file. Quoting and escaping are left to the YAML library,
+ * except that port mappings and `restart: "no"` are always double-quoted: YAML
+ * 1.1 parsers read an unquoted 22:22 as a base-60 number and no as false.
+ */
+export function serializeComposeFile(compose: ComposeFile, header?: string): string {
+  const document = new Document(plain(compose));
+
+  if (header) {
+    document.commentBefore = headerComment(header);
+  }
+
+  const root = document.contents;
+  if (isMap(root)) {
+    root.items.forEach((item, index) => {
+      if (isPair(item) && isScalar(item.key) && index > 0) {
+        item.key.spaceBefore = true;
+      }
+    });
+  }
+
+  const services = document.get('services');
+  if (isMap(services)) {
+    services.items.forEach((item, index) => {
+      if (!isPair(item) || !isScalar(item.key)) {
+        return;
+      }
+      if (index > 0) {
+        item.key.spaceBefore = true;
+      }
+      quoteAmbiguousScalars(item.value);
+    });
+  }
+
+  return document.toString({ lineWidth: 0, nullStr: '' });
+}
+
+export interface HostPortBinding {
+  service: string;
+  hostPort: number;
+}
+
+// Host ports of one ports entry: "8547:8449", "127.0.0.1:8547:8449/tcp",
+// "9000-9002:9000-9002" or the long syntax { target, published }
+function hostPorts(entry: unknown): number[] {
+  let published: string | undefined;
+  if (isPlainObject(entry)) {
+    published = entry.published === undefined ? undefined : String(entry.published);
+  } else {
+    const parts = String(entry).split('/')[0].split(':');
+    published = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  }
+  if (!published) {
+    return [];
+  }
+  const [start, end = start] = published.split('-').map(Number);
+  if (!Number.isInteger(start) || !Number.isInteger(end)) {
+    return [];
+  }
+  return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+}
+
+export function hostPortBindings(compose: ComposeFile): HostPortBinding[] {
+  return Object.entries(compose.services).flatMap(([service, definition]) =>
+    (definition.ports ?? []).flatMap((entry) => hostPorts(entry).map((hostPort) => ({ service, hostPort })))
+  );
+}
+
+/**
+ * Lists the compose files in a directory whose text starts with the given
+ * header line, i.e. the files a generator wrote.
+ */
+export function findGeneratedComposeFiles(dir: string, headerLine: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((name) => /\.ya?ml$/.test(name))
+    .map((name) => join(dir, name))
+    .filter((file) => readFileSync(file, 'utf8').startsWith(`# ${headerLine}`));
+}
+
+/**
+ * Checks a compose file against itself and against others that will run on
+ * the same host: host ports, container names and project names must all be unique.
+ * Returns one message per conflict.
+ */
+export function findComposeConflicts(compose: ComposeFile, others: { file: string; compose: ComposeFile }[]): string[] {
+  const conflicts: string[] = [];
+  const ports = hostPortBindings(compose);
+  const containers = Object.entries(compose.services).filter(([, service]) => service.container_name);
+
+  ports.forEach(({ service, hostPort }, index) => {
+    const clash = ports.slice(0, index).find((binding) => binding.hostPort === hostPort);
+    if (clash) {
+      conflicts.push(`host port ${hostPort} is used by both ${clash.service} and ${service}`);
+    }
+  });
+
+  for (const other of others) {
+    for (const { service, hostPort } of hostPortBindings(other.compose)) {
+      const clash = ports.find((binding) => binding.hostPort === hostPort);
+      if (clash) {
+        conflicts.push(`host port ${hostPort} (${clash.service}) is also used by ${service} in ${other.file}`);
+      }
+    }
+    for (const [service, definition] of Object.entries(other.compose.services)) {
+      const clash = containers.find(([, ours]) => ours.container_name === definition.container_name);
+      if (clash) {
+        conflicts.push(`container name ${definition.container_name} (${clash[0]}) is also used by ${service} in ${other.file}`);
+      }
+    }
+    if (compose.name && compose.name === other.compose.name) {
+      conflicts.push(`project name ${compose.name} is also used by ${other.file}`);
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,53 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { checkNitroImage, CONSENSUS_RELEASES, ConsensusVersionError, imageTag, type ConsensusRelease } from './index.js';
+
+const [RELEASE] = CONSENSUS_RELEASES;
+const IMAGE = 'ghcr.io/celestiaorg/nitro';
+
+describe('imageTag', () => {
+  it('reads the tag and ignores registry ports and digests', () => {
+    assert.equal(imageTag(`${IMAGE}:v3.6.8`), 'v3.6.8');
+    assert.equal(imageTag('localhost:5000/nitro'), undefined);
+    assert.equal(imageTag(`${IMAGE}:v3.6.8@sha256:${'ab'.repeat(32)}`), undefined);
+  });
+});
+
+describe('checkNitroImage', () => {
+  it('passes an image whose tag ships the chain release', () => {
+    assert.deepEqual(checkNitroImage(`${IMAGE}:${RELEASE.nitroImageTags[0]}`, RELEASE.wasmModuleRoot), {
+      release: RELEASE,
+    });
+  });
+
+  it('warns instead of failing for images pinned by digest', () => {
+    const check = checkNitroImage(`${IMAGE}@sha256:${'ab'.repeat(32)}`, RELEASE.wasmModuleRoot);
+
+    assert.equal(check.release, undefined);
+    assert.match(check.warning ?? '', /is pinned by digest or has no tag; make sure it ships consensus v3\.6\.8/);
+  });
+
+  it('warns instead of failing for tags the table does not list', () => {
+    const check = checkNitroImage(`${IMAGE}:v3.6.9`, RELEASE.wasmModuleRoot);
+
+    assert.match(check.warning ?? '', /v3\.6\.9 is not in the consensus table \(version \d+\)/);
+  });
+
+  it('warns when the chain root is missing or unknown', () => {
+    assert.match(checkNitroImage(`${IMAGE}:v3.6.8`, undefined).warning ?? '', /No deployment file records/);
+    assert.match(checkNitroImage(`${IMAGE}:v3.6.8`, '0x' + '00'.repeat(32)).warning ?? '', /is not in the consensus table/);
+  });
+
+  it('rejects a tag the table lists under another release', () => {
+    const other: ConsensusRelease = { version: 'v9.9.9', wasmModuleRoot: `0x${'99'.repeat(32)}`, nitroImageTags: ['v9.9.9'] };
+    CONSENSUS_RELEASES.push(other);
+    try {
+      assert.throws(
+        () => checkNitroImage(`${IMAGE}:v9.9.9`, RELEASE.wasmModuleRoot),
+        (error) => error instanceof ConsensusVersionError && /runs consensus v9\.9\.9/.test(error.message)
+      );
+    } finally {
+      CONSENSUS_RELEASES.pop();
+    }
+  });
+});
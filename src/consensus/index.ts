@@ -0,0 +1,104 @@
+import { getConsensusReleaseByWasmModuleRoot, isKnownWasmModuleRoot } from '@arbitrum/orbit-sdk';
+import type { Hex } from 'viem';
+
+export const CONSENSUS_RELEASES_URL = 'https://github.com/celestiaorg/nitro/releases?q=consensus&expanded=true';
+
+export interface ConsensusRelease {
+  // Release tag on celestiaorg/nitro
+  version: string;
+  // Root of the replay binary validators prove blocks with
+  wasmModuleRoot: Hex;
+  // ghcr.io/celestiaorg/nitro tags whose replay binary has this root
+  nitroImageTags: string[];
+}
+
+// Bumped whenever a release is added, so reports can say which table a root was checked against
+export const CONSENSUS_TABLE_VERSION = 1;
+
+// Consensus releases of celestiaorg/nitro, oldest first, with every image tag known to ship each root.
+// Copy new entries from CONSENSUS_RELEASES_URL; only roots and tags checked against a release belong here.
+// Covers the release the default nitro image (v3.6.8) ships; roots of other releases are reported as not in
+// the table, and images with other tags as unchecked, until they are added here.
+export const CONSENSUS_RELEASES: ConsensusRelease[] = [
+  {
+    version: 'v3.6.8',
+    wasmModuleRoot: '0x597de35fc2ee60e5b2840157370d037542d6a4bc587af7f88202636c54e6bd8d',
+    nitroImageTags: ['v3.6.8'],
+  },
+];
+
+export class ConsensusVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsensusVersionError';
+  }
+}
+
+export function findConsensusRelease(version: string): ConsensusRelease | undefined {
+  return CONSENSUS_RELEASES.find((release) => release.version === version.trim());
+}
+
+export function consensusReleaseByWasmModuleRoot(wasmModuleRoot: string): ConsensusRelease | undefined {
+  return CONSENSUS_RELEASES.find((release) => release.wasmModuleRoot.toLowerCase() === wasmModuleRoot.toLowerCase());
+}
+
+// Arbitrum's own consensus version for a root; Celestia validators can't prove blocks with those binaries
+export function upstreamConsensusVersion(wasmModuleRoot: string): number | undefined {
+  const root = wasmModuleRoot.toLowerCase() as Hex;
+  return isKnownWasmModuleRoot(root) ? getConsensusReleaseByWasmModuleRoot(root).version : undefined;
+}
+
+// The tag of an image reference, or undefined when it has none or is pinned by digest
+export function imageTag(image: string): string | undefined {
+  if (image.includes('@')) {
+    return undefined;
+  }
+  const name = image.slice(image.lastIndexOf('/') + 1);
+  const separator = name.indexOf(':');
+  return separator !== -1 ? name.slice(separator + 1) : undefined;
+}
+
+export interface NitroImageCheck {
+  // The chain's consensus release, when the image ships it
+  release?: ConsensusRelease;
+  // Why the image couldn't be checked
+  warning?: string;
+}
+
+/**
+ * Checks that a nitro image runs the replay binary a chain was created with,
+ * given the wasm module root its deployment file records. Throws only when the
+ * table lists the image's tag under another release; images pinned by digest
+ * or with tags the table doesn't list are passed with a warning.
+ */
+export function checkNitroImage(image: string, wasmModuleRoot: string | undefined): NitroImageCheck {
+  if (!wasmModuleRoot) {
+    return { warning: `No deployment file records the chain's wasm module root; can't check ${image} against it` };
+  }
+  const release = consensusReleaseByWasmModuleRoot(wasmModuleRoot);
+  if (!release) {
+    return {
+      warning: `Wasm module root ${wasmModuleRoot} is not in the consensus table (version ${CONSENSUS_TABLE_VERSION}); can't check ${image} against it`,
+    };
+  }
+
+  const tags = release.nitroImageTags.join(', ');
+  const tag = imageTag(image);
+  if (tag === undefined) {
+    return {
+      warning: `${image} is pinned by digest or has no tag; make sure it ships consensus ${release.version} (known tags: ${tags})`,
+    };
+  }
+  if (release.nitroImageTags.includes(tag)) {
+    return { release };
+  }
+  const other = CONSENSUS_RELEASES.find((entry) => entry.nitroImageTags.includes(tag));
+  if (other) {
+    throw new ConsensusVersionError(
+      `${image} runs consensus ${other.version}, but the chain was created with consensus ${release.version} (use ${release.nitroImageTags.join(' or ')})`
+    );
+  }
+  return {
+    warning: `${image} is not in the consensus table (version ${CONSENSUS_TABLE_VERSION}); make sure it ships consensus ${release.version} (known tags: ${tags})`,
+  };
+}
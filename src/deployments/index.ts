@@ -0,0 +1,165 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import type { DeploymentInfo } from '../types/index.js';
+
+export const DEPLOYMENTS_DIR = 'deployments';
+
+// Version 2 added rollupEventInbox, challengeManager, upgradeExecutor and
+// renamed contracts.utils to contracts.validatorUtils
+export const DEPLOYMENT_INFO_VERSION = 2;
+
+export interface DeploymentRecord {
+  file: string;
+  info: DeploymentInfo;
+}
+
+// How a script was asked to pick a deployment: --file, --chain-id or --chain <name>
+export interface DeploymentSelector {
+  file?: string;
+  chainId?: number;
+  chainName?: string;
+}
+
+export class DeploymentSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeploymentSelectionError';
+  }
+}
+
+export function loadDeploymentInfo(path: string): DeploymentInfo {
+  const deployment = JSON.parse(readFileSync(path, 'utf8'));
+
+  if (typeof deployment?.chainId !== 'number' || typeof deployment?.transactionHash !== 'string') {
+    throw new Error(`${path} is not a deployment file (missing chainId or transactionHash)`);
+  }
+
+  return migrateDeploymentInfo(deployment);
+}
+
+// Upgrades a deployment file written by an older version of these scripts.
+// Addresses the old format never recorded stay unset; parse-deployment fills them in.
+function migrateDeploymentInfo(deployment: any): DeploymentInfo {
+  const version = deployment.version ?? 1;
+  if (version > DEPLOYMENT_INFO_VERSION) {
+    throw new Error(
+      `Deployment file version ${version} is newer than supported version ${DEPLOYMENT_INFO_VERSION}; update these scripts`
+    );
+  }
+
+  const { utils, ...contracts } = deployment.contracts ?? {};
+  if (utils && !contracts.validatorUtils) {
+    contracts.validatorUtils = utils;
+  }
+
+  return { ...deployment, version: DEPLOYMENT_INFO_VERSION, contracts };
+}
+
+// Deployment files are named deployment-<chainId>-<timestamp>.json
+function fileTimestamp(file: string): number {
+  const match = file.match(/-(\d+)\.json$/);
+  return match ? Number(match[1]) : 0;
+}
+
+// Every readable deployment file, oldest first. Files that fail to load are
+// reported through onError and skipped so one bad file doesn't hide the rest.
+export function listDeployments(
+  dir: string = DEPLOYMENTS_DIR,
+  onError: (file: string, error: Error) => void = () => {}
+): DeploymentRecord[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const records: DeploymentRecord[] = [];
+  for (const name of readdirSync(dir)) {
+    if (!name.startsWith('deployment-') || !name.endsWith('.json')) {
+      continue;
+    }
+    const file = `${dir}/${name}`;
+    try {
+      records.push({ file, info: loadDeploymentInfo(file) });
+    } catch (error: any) {
+      onError(file, error);
+    }
+  }
+
+  return records.sort((a, b) => fileTimestamp(a.file) - fileTimestamp(b.file));
+}
+
+// Most recent deployment for a chain, by chain ID or (case-insensitive) chain name
+export function findDeployment(
+  chain: number | string,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentRecord | undefined {
+  if (typeof chain === 'number' ? !Number.isSafeInteger(chain) : typeof chain !== 'string' || chain === '') {
+    throw new DeploymentSelectionError(`Can't look up a deployment without a chain ID or name (got ${chain})`);
+  }
+  const matches = listDeployments(dir).filter(({ info }) =>
+    typeof chain === 'number' ? info.chainId === chain : info.chainName.toLowerCase() === chain.toLowerCase()
+  );
+
+  const chainIds = new Set(matches.map(({ info }) => info.chainId));
+  if (chainIds.size > 1) {
+    throw new DeploymentSelectionError(
+      `Chain name "${chain}" matches several chain IDs (${[...chainIds].join(', ')}); use --chain-id instead`
+    );
+  }
+
+  return matches[matches.length - 1];
+}
+
+export function parseDeploymentSelector(args: string[]): DeploymentSelector {
+  const fileIndex = args.indexOf('--file');
+  const chainIdIndex = args.indexOf('--chain-id');
+  const chainNameIndex = args.indexOf('--chain');
+
+  const selector: DeploymentSelector = {
+    file: fileIndex !== -1 ? args[fileIndex + 1] : undefined,
+    chainId: chainIdIndex !== -1 ? Number(args[chainIdIndex + 1]) : undefined,
+    chainName: chainNameIndex !== -1 ? args[chainNameIndex + 1] : undefined,
+  };
+
+  if (selector.chainId !== undefined && !Number.isSafeInteger(selector.chainId)) {
+    throw new DeploymentSelectionError(`--chain-id must be an integer, got "${args[chainIdIndex + 1]}"`);
+  }
+  return selector;
+}
+
+export function hasDeploymentSelector(selector: DeploymentSelector): boolean {
+  return selector.file !== undefined || selector.chainId !== undefined || selector.chainName !== undefined;
+}
+
+// Resolves a selector to exactly one deployment. Without a selector, this only
+// succeeds when deployments/ holds a single chain; it never guesses between chains.
+export function resolveDeployment(selector: DeploymentSelector, dir: string = DEPLOYMENTS_DIR): DeploymentRecord {
+  if (selector.file) {
+    if (!existsSync(selector.file)) {
+      throw new DeploymentSelectionError(`Deployment file not found: ${selector.file}`);
+    }
+    return { file: selector.file, info: loadDeploymentInfo(selector.file) };
+  }
+
+  const chain = selector.chainId ?? selector.chainName;
+  if (chain !== undefined) {
+    const record = findDeployment(chain, dir);
+    if (!record) {
+      throw new DeploymentSelectionError(
+        `No deployment found for chain ${chain} in ${dir}/ (run npm run deployments -- list)`
+      );
+    }
+    return record;
+  }
+
+  const deployments = listDeployments(dir);
+  const chainIds = [...new Set(deployments.map(({ info }) => info.chainId))];
+
+  if (chainIds.length === 0) {
+    throw new DeploymentSelectionError(`No deployment files found in ${dir}/ (run npm run deploy first)`);
+  }
+  if (chainIds.length > 1) {
+    throw new DeploymentSelectionError(
+      `${dir}/ holds deployments for several chains (${chainIds.join(', ')}); select one with --chain-id <id>, --chain <name> or --file <path>`
+    );
+  }
+  return deployments[deployments.length - 1];
+}
@@ -0,0 +1,178 @@
+import assert from 'assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { createEtherscanClient, EtherscanApiError } from './index.js';
+
+interface RecordedRequest {
+  method: string;
+  query: URLSearchParams;
+  params: URLSearchParams;
+}
+
+type Reply = { status?: number; body: unknown };
+
+// Etherscan stand-in: every request is recorded and answered by `reply`
+let reply: (params: URLSearchParams) => Reply;
+let requests: RecordedRequest[];
+let server: Server;
+let apiUrl: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const params = new URLSearchParams(req.method === 'POST' ? body : url.search);
+      requests.push({ method: req.method ?? 'GET', query: url.searchParams, params });
+
+      const { status = 200, body: response } = reply(params);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  reply = () => ({ body: { status: '0', message: 'NOTOK', result: 'unexpected request' } });
+});
+
+function client() {
+  return createEtherscanClient({ apiUrl, apiKey: 'test-key', chainId: 11155111, pollIntervalMs: 0, maxPollAttempts: 3 });
+}
+
+const ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('createEtherscanClient', () => {
+  it('reports a contract as verified when Etherscan has its source', async () => {
+    reply = () => ({
+      body: { status: '1', message: 'OK', result: [{ SourceCode: 'contract Rollup {}', ContractName: 'Rollup' }] },
+    });
+
+    assert.equal(await client().isVerified(ADDRESS), true);
+    const [request] = requests;
+    assert.equal(request.method, 'GET');
+    assert.equal(request.params.get('module'), 'contract');
+    assert.equal(request.params.get('action'), 'getsourcecode');
+    assert.equal(request.params.get('address'), ADDRESS);
+    assert.equal(request.params.get('chainid'), '11155111');
+    assert.equal(request.params.get('apikey'), 'test-key');
+  });
+
+  it('reports a contract without source as not verified', async () => {
+    reply = () => ({ body: { status: '1', message: 'OK', result: [{ SourceCode: '', ContractName: '' }] } });
+
+    assert.equal(await client().isVerified(ADDRESS), false);
+  });
+
+  it('submits sources and polls until the check passes', async () => {
+    let checks = 0;
+    reply = (params) => {
+      if (params.get('action') === 'verifysourcecode') {
+        return { body: { status: '1', message: 'OK', result: 'guid-1' } };
+      }
+      checks++;
+      return checks < 2
+        ? { body: { status: '0', message: 'NOTOK', result: 'Pending in queue' } }
+        : { body: { status: '1', message: 'OK', result: 'Pass - Verified' } };
+    };
+
+    const outcome = await client().verifySourceCode({
+      address: ADDRESS,
+      sourceCode: '{"language":"Solidity"}',
+      contractName: 'src/rollup/RollupAdminLogic.sol:RollupAdminLogic',
+      compilerVersion: 'v0.8.9+commit.e5eed63a',
+      constructorArguments: 'abcd',
+    });
+
+    assert.deepEqual(outcome, { status: 'verified', message: 'Pass - Verified' });
+    const [submit, ...polls] = requests;
+    assert.equal(submit.method, 'POST');
+    assert.equal(submit.query.get('chainid'), '11155111');
+    assert.equal(submit.params.get('contractaddress'), ADDRESS);
+    assert.equal(submit.params.get('codeformat'), 'solidity-standard-json-input');
+    assert.equal(submit.params.get('contractname'), 'src/rollup/RollupAdminLogic.sol:RollupAdminLogic');
+    assert.equal(submit.params.get('constructorArguements'), 'abcd');
+    assert.deepEqual(
+      polls.map((poll) => [poll.params.get('action'), poll.params.get('guid')]),
+      [
+        ['checkverifystatus', 'guid-1'],
+        ['checkverifystatus', 'guid-1'],
+      ]
+    );
+  });
+
+  it('treats an already verified contract as verified without polling', async () => {
+    reply = () => ({ body: { status: '0', message: 'NOTOK', result: 'Contract source code already verified' } });
+
+    const outcome = await client().verifyProxy(ADDRESS);
+
+    assert.equal(outcome.status, 'verified');
+    assert.equal(requests.length, 1);
+  });
+
+  it('passes the expected implementation when linking a proxy', async () => {
+    const implementation = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+    reply = (params) =>
+      params.get('action') === 'verifyproxycontract'
+        ? { body: { status: '1', message: 'OK', result: 'guid-2' } }
+        : { body: { status: '1', message: 'OK', result: `The proxy's implementation contract is found at ${implementation}` } };
+
+    const outcome = await client().verifyProxy(ADDRESS, implementation);
+
+    assert.equal(outcome.status, 'verified');
+    assert.equal(requests[0].params.get('expectedimplementation'), implementation);
+    assert.equal(requests[1].params.get('action'), 'checkproxyverification');
+  });
+
+  it('reports a rejected verification as failed', async () => {
+    reply = (params) =>
+      params.get('action') === 'verifysourcecode'
+        ? { body: { status: '1', message: 'OK', result: 'guid-3' } }
+        : { body: { status: '0', message: 'NOTOK', result: 'Fail - Unable to verify' } };
+
+    const outcome = await client().verifySourceCode({
+      address: ADDRESS,
+      sourceCode: '{}',
+      contractName: 'src/bridge/Bridge.sol:Bridge',
+      compilerVersion: 'v0.8.9+commit.e5eed63a',
+    });
+
+    assert.deepEqual(outcome, { status: 'failed', message: 'Fail - Unable to verify' });
+  });
+
+  it('gives up after the configured number of checks', async () => {
+    reply = (params) =>
+      params.get('action') === 'verifyproxycontract'
+        ? { body: { status: '1', message: 'OK', result: 'guid-4' } }
+        : { body: { status: '0', message: 'NOTOK', result: 'Pending in queue' } };
+
+    const outcome = await client().verifyProxy(ADDRESS);
+
+    assert.deepEqual(outcome, { status: 'failed', message: 'still pending after 3 checks (guid guid-4)' });
+    assert.equal(requests.length, 4);
+  });
+
+  it('throws on HTTP errors', async () => {
+    reply = () => ({ status: 502, body: {} });
+
+    await assert.rejects(client().getSourceCode(ADDRESS), (error) => {
+      assert.ok(error instanceof EtherscanApiError);
+      assert.equal(error.action, 'getsourcecode');
+      assert.match(error.message, /HTTP 502/);
+      return true;
+    });
+  });
+
+  it('throws on a body that is not an Etherscan response', async () => {
+    reply = () => ({ body: { error: 'rate limited' } });
+
+    await assert.rejects(client().getContractCreation(ADDRESS), /unexpected response body/);
+  });
+});
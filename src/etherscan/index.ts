@@ -0,0 +1,197 @@
+// Minimal client for the Etherscan contract verification API. Anything that
+// speaks the same protocol (Etherscan v2, Blockscout's Etherscan-compatible
+// endpoint, a local mock server) can be used through `apiUrl`.
+
+export const DEFAULT_ETHERSCAN_API_URL = 'https://api.etherscan.io/v2/api';
+
+export interface EtherscanClientOptions {
+  apiUrl?: string;
+  apiKey?: string;
+  // Sent as `chainid`, required by the Etherscan v2 multichain API
+  chainId?: number;
+  pollIntervalMs?: number;
+  maxPollAttempts?: number;
+}
+
+export interface EtherscanResponse<T> {
+  status: string;
+  message: string;
+  result: T;
+}
+
+export interface SourceCodeResult {
+  SourceCode: string;
+  ContractName: string;
+  CompilerVersion: string;
+  Proxy: string;
+  Implementation: string;
+}
+
+export interface ContractCreationResult {
+  contractAddress: string;
+  contractCreator: string;
+  txHash: string;
+}
+
+export interface VerifySourceCodeParams {
+  address: string;
+  // Standard JSON input, serialized
+  sourceCode: string;
+  // Fully qualified name, e.g. src/rollup/RollupAdminLogic.sol:RollupAdminLogic
+  contractName: string;
+  // e.g. v0.8.9+commit.e5eed63a
+  compilerVersion: string;
+  // ABI-encoded constructor arguments, without 0x
+  constructorArguments?: string;
+}
+
+export type VerificationOutcome =
+  | { status: 'verified'; message: string }
+  | { status: 'failed'; message: string };
+
+export class EtherscanApiError extends Error {
+  constructor(
+    public readonly action: string,
+    message: string
+  ) {
+    super(`Etherscan ${action} failed: ${message}`);
+    this.name = 'EtherscanApiError';
+  }
+}
+
+const PENDING_MESSAGES = [/pending in queue/i, /in progress/i, /unable to locate/i];
+
+// Etherscan's own wording for "nothing left to do"
+const ALREADY_VERIFIED_MESSAGES = [/already verified/i];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createEtherscanClient(options: EtherscanClientOptions) {
+  const apiUrl = options.apiUrl ?? DEFAULT_ETHERSCAN_API_URL;
+  const pollIntervalMs = options.pollIntervalMs ?? 5_000;
+  const maxPollAttempts = options.maxPollAttempts ?? 24;
+
+  function baseParams(module: string, action: string): Record<string, string> {
+    return {
+      ...(options.chainId !== undefined && { chainid: String(options.chainId) }),
+      module,
+      action,
+      ...(options.apiKey && { apikey: options.apiKey }),
+    };
+  }
+
+  async function request<T>(
+    method: 'GET' | 'POST',
+    action: string,
+    params: Record<string, string>
+  ): Promise<EtherscanResponse<T>> {
+    const body = new URLSearchParams({ ...baseParams('contract', action), ...params });
+
+    let response: Response;
+    if (method === 'GET') {
+      response = await fetch(`${apiUrl}?${body.toString()}`);
+    } else {
+      // chainid must be in the query string for the v2 API, even on POST
+      const query = options.chainId !== undefined ? `?chainid=${options.chainId}` : '';
+      response = await fetch(`${apiUrl}${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: body.toString(),
+      });
+    }
+
+    if (!response.ok) {
+      throw new EtherscanApiError(action, `HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const json = (await response.json()) as EtherscanResponse<T>;
+    if (typeof json?.status !== 'string') {
+      throw new EtherscanApiError(action, 'unexpected response body');
+    }
+    return json;
+  }
+
+  // Polls a check* action until the result is no longer pending
+  async function poll(action: string, guid: string): Promise<VerificationOutcome> {
+    for (let attempt = 0; attempt < maxPollAttempts; attempt++) {
+      await sleep(pollIntervalMs);
+      const { status, result } = await request<string>('GET', action, { guid });
+
+      if (PENDING_MESSAGES.some((pattern) => pattern.test(result))) {
+        continue;
+      }
+      if (status === '1' || ALREADY_VERIFIED_MESSAGES.some((pattern) => pattern.test(result))) {
+        return { status: 'verified', message: result };
+      }
+      return { status: 'failed', message: result };
+    }
+    return { status: 'failed', message: `still pending after ${maxPollAttempts} checks (guid ${guid})` };
+  }
+
+  // Submits a verification request and waits for the outcome
+  async function submit(
+    submitAction: string,
+    checkAction: string,
+    params: Record<string, string>
+  ): Promise<VerificationOutcome> {
+    const { status, result } = await request<string>('POST', submitAction, params);
+
+    if (status !== '1') {
+      if (ALREADY_VERIFIED_MESSAGES.some((pattern) => pattern.test(result))) {
+        return { status: 'verified', message: result };
+      }
+      return { status: 'failed', message: result };
+    }
+    return poll(checkAction, result);
+  }
+
+  return {
+    apiUrl,
+
+    async getSourceCode(address: string): Promise<SourceCodeResult | undefined> {
+      const { status, result } = await request<SourceCodeResult[] | string>('GET', 'getsourcecode', { address });
+      if (status !== '1' || !Array.isArray(result)) {
+        return undefined;
+      }
+      return result[0];
+    },
+
+    async isVerified(address: string): Promise<boolean> {
+      const source = await this.getSourceCode(address);
+      return Boolean(source?.SourceCode);
+    },
+
+    async getContractCreation(address: string): Promise<ContractCreationResult | undefined> {
+      const { status, result } = await request<ContractCreationResult[] | string>('GET', 'getcontractcreation', {
+        contractaddresses: address,
+      });
+      if (status !== '1' || !Array.isArray(result)) {
+        return undefined;
+      }
+      return result[0];
+    },
+
+    verifySourceCode(params: VerifySourceCodeParams): Promise<VerificationOutcome> {
+      return submit('verifysourcecode', 'checkverifystatus', {
+        contractaddress: params.address,
+        sourceCode: params.sourceCode,
+        codeformat: 'solidity-standard-json-input',
+        contractname: params.contractName,
+        compilerversion: params.compilerVersion,
+        // Etherscan's spelling
+        constructorArguements: params.constructorArguments ?? '',
+      });
+    },
+
+    verifyProxy(address: string, expectedImplementation?: string): Promise<VerificationOutcome> {
+      return submit('verifyproxycontract', 'checkproxyverification', {
+        address,
+        ...(expectedImplementation && { expectedimplementation: expectedImplementation }),
+      });
+    },
+  };
+}
+
+export type EtherscanClient = ReturnType<typeof createEtherscanClient>;
@@ -0,0 +1,62 @@
+import { formatUnits, parseAbi, zeroAddress, type Address, type PublicClient } from 'viem';
+import type { NativeTokenInfo } from '../types/index.js';
+
+const ERC20_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+]);
+
+// The ERC20 bridge templates of nitro-contracts v2+ accept up to 36 decimals;
+// anything other than 18 is rejected by v1.1 rollup creators
+export const MAX_FEE_TOKEN_DECIMALS = 36;
+export const STANDARD_FEE_TOKEN_DECIMALS = 18;
+
+export class FeeTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeeTokenError';
+  }
+}
+
+export function isCustomFeeToken(token: string | undefined): token is Address {
+  return Boolean(token) && token!.toLowerCase() !== zeroAddress;
+}
+
+// Reads the token metadata and rejects addresses that can't be a fee token
+export async function fetchFeeTokenInfo(publicClient: PublicClient, address: Address): Promise<NativeTokenInfo> {
+  const code = await publicClient.getBytecode({ address });
+  if (!code || code === '0x') {
+    throw new FeeTokenError(`Native token ${address} has no code on the parent chain`);
+  }
+
+  let decimals: number;
+  try {
+    decimals = await publicClient.readContract({ address, abi: ERC20_ABI, functionName: 'decimals' });
+  } catch {
+    throw new FeeTokenError(`Native token ${address} does not implement decimals(); is it an ERC-20?`);
+  }
+  if (decimals > MAX_FEE_TOKEN_DECIMALS) {
+    throw new FeeTokenError(
+      `Native token ${address} has ${decimals} decimals; at most ${MAX_FEE_TOKEN_DECIMALS} are supported`
+    );
+  }
+
+  // name() and symbol() are optional in ERC-20, and some older tokens return bytes32
+  const [name, symbol] = await Promise.all(
+    (['name', 'symbol'] as const).map((functionName) =>
+      publicClient.readContract({ address, abi: ERC20_ABI, functionName }).catch(() => undefined)
+    )
+  );
+
+  return { address, name: name ?? 'unknown', symbol: symbol ?? 'TOKEN', decimals };
+}
+
+export function fetchFeeTokenBalance(publicClient: PublicClient, token: Address, owner: Address): Promise<bigint> {
+  return publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] });
+}
+
+export function formatTokenAmount(amount: bigint, token: Pick<NativeTokenInfo, 'decimals' | 'symbol'>): string {
+  return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
@@ -0,0 +1,145 @@
+import { formatUnits, type Address } from 'viem';
+import type { DaMode } from '../manifest/index.js';
+import type { CheckStatus } from '../report/index.js';
+
+export type FundingRole = 'deployer' | 'batch-poster' | 'validator';
+
+export const FUNDING_ROLE_LABELS: Record<FundingRole, string> = {
+  deployer: 'Deployer',
+  'batch-poster': 'Batch poster',
+  validator: 'Validator',
+};
+
+// createRollup deploys the rollup, its bridge and a dozen proxies; measured at
+// 8-10M gas, rounded up
+export const CREATE_ROLLUP_GAS = 12_000_000n;
+// addSequencerL2BatchFromOrigin without the batch data
+export const BATCH_OVERHEAD_GAS = 150_000n;
+export const CALLDATA_GAS_PER_BYTE = 16n;
+// A Celestia batch is posted to the parent chain as a blob pointer of about this size
+export const CELESTIA_BATCH_POINTER_BYTES = 256n;
+// New assertion plus confirmation of the previous one
+export const ASSERTION_GAS = 500_000n;
+
+// Thresholds assume gas may cost this many times the current price
+export const GAS_PRICE_HEADROOM = 2n;
+// Nitro posts a batch and an assertion at least hourly by default
+export const DEFAULT_RUNWAY_HOURS = 24;
+// Accounts below this multiple of their threshold are reported low and topped up to it
+export const TOP_UP_MULTIPLE = 2n;
+
+// Blob submissions on Celestia: a fixed cost per PayForBlobs plus gas per blob byte,
+// priced at the network's minimum gas price
+export const CELESTIA_PFB_GAS = 65_000n;
+export const CELESTIA_GAS_PER_BLOB_BYTE = 8n;
+// In utia per 1000 gas (0.002 utia per gas)
+export const CELESTIA_MIN_GAS_PRICE_MILLI_UTIA = 2n;
+export const CELESTIA_DENOM = 'utia';
+export const CELESTIA_DECIMALS = 6;
+
+export interface FundingParameters {
+  gasPrice: bigint;
+  maxDataSize: bigint;
+  daMode: DaMode;
+  fallbackToEthereum: boolean;
+  runwayHours: number;
+}
+
+export class FundingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FundingError';
+  }
+}
+
+// Bytes a batch puts on the parent chain: the whole batch unless Celestia carries it
+function postedBatchBytes(params: FundingParameters): bigint {
+  const celestiaOnly = params.daMode === 'celestia' && !params.fallbackToEthereum;
+  return celestiaOnly ? CELESTIA_BATCH_POINTER_BYTES : params.maxDataSize;
+}
+
+/**
+ * The parent chain balance a role needs: the deployment itself for the
+ * deployer, and `runwayHours` of hourly batches or assertions for the batch
+ * poster and validators, at GAS_PRICE_HEADROOM times the current gas price.
+ */
+export function fundingThreshold(role: FundingRole, params: FundingParameters): bigint {
+  const gasPrice = params.gasPrice * GAS_PRICE_HEADROOM;
+  const runway = BigInt(params.runwayHours);
+  switch (role) {
+    case 'deployer':
+      return CREATE_ROLLUP_GAS * gasPrice;
+    case 'batch-poster':
+      return (BATCH_OVERHEAD_GAS + postedBatchBytes(params) * CALLDATA_GAS_PER_BYTE) * gasPrice * runway;
+    case 'validator':
+      return ASSERTION_GAS * gasPrice * runway;
+  }
+}
+
+// utia the Celestia account needs for `runwayHours` of hourly batches of up to maxDataSize
+export function celestiaFundingThreshold(params: Pick<FundingParameters, 'maxDataSize' | 'runwayHours'>): bigint {
+  const gas = CELESTIA_PFB_GAS + params.maxDataSize * CELESTIA_GAS_PER_BLOB_BYTE;
+  return (gas * CELESTIA_MIN_GAS_PRICE_MILLI_UTIA * BigInt(params.runwayHours)) / 1000n;
+}
+
+export function fundingStatus(balance: bigint, required: bigint): CheckStatus {
+  if (balance < required) {
+    return 'fail';
+  }
+  return balance < required * TOP_UP_MULTIPLE ? 'warn' : 'pass';
+}
+
+// What to send to bring an account up to TOP_UP_MULTIPLE times its threshold
+export function topUpAmount(balance: bigint, required: bigint): bigint {
+  const target = required * TOP_UP_MULTIPLE;
+  return balance < target ? target - balance : 0n;
+}
+
+export interface FundedAccount {
+  address: Address;
+  roles: FundingRole[];
+  balance: bigint;
+  // Sum of the thresholds of all its roles
+  required: bigint;
+}
+
+/**
+ * One entry per address, so an account holding several roles (e.g. the
+ * deployer also posting batches) has to cover all of their thresholds.
+ */
+export function groupFundingAccounts(
+  accounts: { role: FundingRole; address: Address }[],
+  params: FundingParameters
+): Omit<FundedAccount, 'balance'>[] {
+  const byAddress = new Map<string, Omit<FundedAccount, 'balance'>>();
+  for (const { role, address } of accounts) {
+    const key = address.toLowerCase();
+    const entry = byAddress.get(key) ?? { address, roles: [], required: 0n };
+    if (!entry.roles.includes(role)) {
+      entry.roles.push(role);
+      entry.required += fundingThreshold(role, params);
+    }
+    byAddress.set(key, entry);
+  }
+  return [...byAddress.values()];
+}
+
+export function formatUtia(amount: bigint): string {
+  return `${formatUnits(amount, CELESTIA_DECIMALS)} TIA`;
+}
+
+// Reads an account's utia balance from a Cosmos SDK REST endpoint (e.g. a Celestia consensus node's API)
+export async function fetchCelestiaBalance(apiUrl: string, address: string): Promise<bigint> {
+  const url = `${apiUrl.replace(/\/$/, '')}/cosmos/bank/v1beta1/balances/${address}/by_denom?denom=${CELESTIA_DENOM}`;
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new FundingError(`Celestia API ${apiUrl} is not reachable: ${(error as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new FundingError(`Celestia API returned ${response.status} for ${address}`);
+  }
+  const body = (await response.json()) as { balance?: { amount?: string } };
+  return BigInt(body.balance?.amount ?? '0');
+}
@@ -0,0 +1,74 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { DEPLOYMENTS_DIR } from '../deployments/index.js';
+
+// Steps of a deployment, in the order they complete
+export const JOURNAL_STEPS = ['prepared', 'sent', 'confirmed', 'parsed', 'node-config-written'] as const;
+
+export type JournalStep = (typeof JOURNAL_STEPS)[number];
+
+export interface JournalSteps {
+  prepared?: { at: string; to: string; data: string; value: string; nonce: number };
+  // Recorded with the signed transaction *before* it is broadcast, so a crash
+  // at any point after signing can be resumed by rebroadcasting it
+  sent?: { at: string; hash: string; nonce: number; rawTransaction: string };
+  confirmed?: { at: string; blockNumber: number; status: 'success' | 'reverted' };
+  parsed?: { at: string; deploymentFile: string };
+  'node-config-written'?: { at: string; nodeConfigFile: string };
+}
+
+export interface DeploymentJournal {
+  version: 1;
+  chainId: number;
+  parentChainId: number;
+  deployer: string;
+  createdAt: string;
+  updatedAt: string;
+  steps: JournalSteps;
+}
+
+export function journalPath(chainId: number, dir: string = DEPLOYMENTS_DIR): string {
+  return `${dir}/journal-${chainId}.json`;
+}
+
+export function loadJournal(chainId: number, dir: string = DEPLOYMENTS_DIR): DeploymentJournal | undefined {
+  const path = journalPath(chainId, dir);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+export function createJournal(chainId: number, parentChainId: number, deployer: string): DeploymentJournal {
+  const now = new Date().toISOString();
+  return { version: 1, chainId, parentChainId, deployer, createdAt: now, updatedAt: now, steps: {} };
+}
+
+function saveJournal(journal: DeploymentJournal, dir: string): void {
+  const path = journalPath(journal.chainId, dir);
+  journal.updatedAt = new Date().toISOString();
+
+  // Write then rename so a crash never leaves a truncated journal behind
+  writeFileSync(`${path}.tmp`, JSON.stringify(journal, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+export function recordStep<TStep extends JournalStep>(
+  journal: DeploymentJournal,
+  step: TStep,
+  data: Omit<NonNullable<JournalSteps[TStep]>, 'at'>,
+  dir: string = DEPLOYMENTS_DIR
+): void {
+  journal.steps[step] = { ...data, at: new Date().toISOString() } as JournalSteps[TStep];
+  saveJournal(journal, dir);
+}
+
+export function lastCompletedStep(journal: DeploymentJournal): JournalStep | undefined {
+  return [...JOURNAL_STEPS].reverse().find(step => journal.steps[step] !== undefined);
+}
+
+// Moves a finished or abandoned journal aside so the next run starts fresh
+export function archiveJournal(journal: DeploymentJournal, dir: string = DEPLOYMENTS_DIR): string {
+  const archivedPath = `${dir}/journal-${journal.chainId}-${Date.parse(journal.createdAt)}.archived.json`;
+  renameSync(journalPath(journal.chainId, dir), archivedPath);
+  return archivedPath;
+}
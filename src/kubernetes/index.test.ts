@@ -0,0 +1,177 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { parseAllDocuments } from 'yaml';
+import {
+  buildKubernetesManifests,
+  serializeKubernetesManifests,
+  validateKubernetesManifests,
+  type KubernetesManifestOptions,
+  type KubernetesResource,
+} from './index.js';
+
+function options(overrides: Partial<KubernetesManifestOptions> = {}): KubernetesManifestOptions {
+  return {
+    name: 'orbit-my-chain',
+    namespace: 'orbit',
+    nodeConfig: {
+      chain: { name: 'my-chain' },
+      node: { 'da-provider': { enable: true, rpc: { url: 'http://celestia-server:9876' } } },
+    },
+    nodeSecrets: { NITRO_NODE__BATCH_POSTER__PARENT_CHAIN_WALLET__PRIVATE_KEY: 'aa' },
+    httpPort: 8449,
+    nitroImage: 'ghcr.io/celestiaorg/nitro:v3.6.8',
+    celestiaServerImage: 'ghcr.io/celestiaorg/nitro-das-celestia:v0.6.0',
+    celestiaCommand: ['/bin/celestia-server', '--celestia.auth-token', '$(CELESTIA_AUTH_TOKEN)'],
+    celestiaSecrets: { CELESTIA_AUTH_TOKEN: 'token' },
+    storageSize: '100Gi',
+    celestiaKeysStorageSize: '1Gi',
+    ...overrides,
+  };
+}
+
+function all({ resources, secret }: { resources: KubernetesResource[]; secret?: KubernetesResource }) {
+  return secret ? [...resources, secret] : resources;
+}
+
+function byKind(resources: KubernetesResource[], kind: string, name: string): KubernetesResource {
+  const resource = resources.find((entry) => entry.kind === kind && entry.metadata.name === name);
+  assert.ok(resource, `${kind}/${name} not generated`);
+  return resource;
+}
+
+describe('buildKubernetesManifests', () => {
+  it('builds manifests that pass validation', () => {
+    const manifests = buildKubernetesManifests(options({ nitroLimits: { cpu: '4', memory: '16Gi' }, storageClass: 'ssd' }));
+
+    assert.deepEqual(validateKubernetesManifests(all(manifests)), []);
+    assert.deepEqual(
+      all(manifests).map((resource) => `${resource.kind}/${resource.metadata.name}`),
+      [
+        'ConfigMap/orbit-my-chain-node-config',
+        'PersistentVolumeClaim/orbit-my-chain-celestia-keys',
+        'Service/orbit-my-chain-celestia-server',
+        'Service/orbit-my-chain-nitro',
+        'Service/orbit-my-chain-nitro-headless',
+        'Deployment/orbit-my-chain-celestia-server',
+        'StatefulSet/orbit-my-chain-nitro',
+        'Secret/orbit-my-chain-secrets',
+      ]
+    );
+  });
+
+  it('builds only the Nitro resources for chains that do not post to Celestia', () => {
+    const manifests = buildKubernetesManifests(options({ celestiaCommand: undefined, celestiaSecrets: {} }));
+
+    assert.deepEqual(validateKubernetesManifests(all(manifests)), []);
+    assert.ok(!manifests.resources.some((resource) => resource.metadata.name.includes('celestia')));
+  });
+
+  it('references an external Secret instead of generating one', () => {
+    const manifests = buildKubernetesManifests(options({ externalSecret: 'chain-keys' }));
+
+    assert.equal(manifests.secret, undefined);
+    assert.deepEqual(validateKubernetesManifests(manifests.resources, ['chain-keys']), []);
+    assert.match(validateKubernetesManifests(manifests.resources)[0], /references missing Secret chain-keys/);
+  });
+
+  it('points the da-provider at the celestia-server Service', () => {
+    const { resources } = buildKubernetesManifests(options());
+
+    const nodeConfig = JSON.parse(byKind(resources, 'ConfigMap', 'orbit-my-chain-node-config').data['nodeConfig.json']);
+    assert.equal(nodeConfig.node['da-provider'].rpc.url, 'http://orbit-my-chain-celestia-server:9876');
+  });
+
+  it('keeps secrets out of the ConfigMap and passes them as env references', () => {
+    const { resources, secret } = buildKubernetesManifests(options());
+
+    assert.deepEqual(Object.keys(secret?.stringData ?? {}).sort(), [
+      'CELESTIA_AUTH_TOKEN',
+      'NITRO_NODE__BATCH_POSTER__PARENT_CHAIN_WALLET__PRIVATE_KEY',
+    ]);
+    const [nitro] = byKind(resources, 'StatefulSet', 'orbit-my-chain-nitro').spec.template.spec.containers;
+    assert.deepEqual(nitro.env, [
+      {
+        name: 'NITRO_NODE__BATCH_POSTER__PARENT_CHAIN_WALLET__PRIVATE_KEY',
+        valueFrom: {
+          secretKeyRef: { name: 'orbit-my-chain-secrets', key: 'NITRO_NODE__BATCH_POSTER__PARENT_CHAIN_WALLET__PRIVATE_KEY' },
+        },
+      },
+    ]);
+    assert.ok(!byKind(resources, 'ConfigMap', 'orbit-my-chain-node-config').data['nodeConfig.json'].includes('token'));
+  });
+
+  it('changes the config checksum annotation with the node config', () => {
+    const checksum = (nodeConfig: Record<string, any>) =>
+      byKind(buildKubernetesManifests(options({ nodeConfig })).resources, 'StatefulSet', 'orbit-my-chain-nitro').spec
+        .template.metadata.annotations['checksum/node-config'];
+
+    assert.equal(checksum({ chain: { name: 'a' } }), checksum({ chain: { name: 'a' } }));
+    assert.notEqual(checksum({ chain: { name: 'a' } }), checksum({ chain: { name: 'b' } }));
+  });
+});
+
+describe('validateKubernetesManifests', () => {
+  it('rejects names Kubernetes would refuse', () => {
+    const problems = validateKubernetesManifests(
+      all(buildKubernetesManifests(options({ name: 'orbit-a-chain-name-that-is-much-too-long-for-sets', namespace: 'Orbit' })))
+    );
+
+    assert.ok(problems.some((problem) => /StatefulSet names must be at most 52 characters/.test(problem)));
+    assert.ok(problems.some((problem) => /namespace Orbit must be a lowercase DNS label/.test(problem)));
+  });
+
+  it('rejects resource limits that are not quantities', () => {
+    const problems = validateKubernetesManifests(
+      all(buildKubernetesManifests(options({ celestiaLimits: { memory: '2 GB' } })))
+    );
+
+    assert.deepEqual(problems, [
+      'Deployment/orbit-my-chain-celestia-server: container celestia-server: memory 2 GB is not a quantity (e.g. 500m, 4, 16Gi)',
+    ]);
+  });
+
+  it('rejects references that do not resolve within the set', () => {
+    const manifests = buildKubernetesManifests(options());
+    const resources = all(manifests).filter((resource) => resource.kind !== 'ConfigMap');
+    const statefulSet = byKind(resources, 'StatefulSet', 'orbit-my-chain-nitro');
+    statefulSet.spec.template.spec.containers[0].env[0].valueFrom.secretKeyRef.key = 'MISSING';
+    statefulSet.spec.template.spec.containers[0].readinessProbe.tcpSocket.port = 'http';
+
+    assert.deepEqual(validateKubernetesManifests(resources), [
+      'StatefulSet/orbit-my-chain-nitro: volume node-config references missing ConfigMap orbit-my-chain-node-config',
+      'StatefulSet/orbit-my-chain-nitro: container nitro: env NITRO_NODE__BATCH_POSTER__PARENT_CHAIN_WALLET__PRIVATE_KEY references missing key MISSING of Secret orbit-my-chain-secrets',
+      'StatefulSet/orbit-my-chain-nitro: container nitro: probe port http is not a named container port',
+    ]);
+  });
+
+  it('rejects Services whose selector matches no workload', () => {
+    const resources = all(buildKubernetesManifests(options()));
+    byKind(resources, 'Service', 'orbit-my-chain-nitro').spec.selector['app.kubernetes.io/component'] = 'sequencer';
+
+    assert.deepEqual(validateKubernetesManifests(resources), [
+      'Service/orbit-my-chain-nitro: selector matches no workload',
+    ]);
+  });
+
+  it('rejects unknown kinds', () => {
+    const problems = validateKubernetesManifests([
+      { apiVersion: 'networking.k8s.io/v1', kind: 'Ingress', metadata: { name: 'orbit' } },
+    ]);
+
+    assert.deepEqual(problems, ['Ingress/orbit: unknown kind Ingress for apiVersion networking.k8s.io/v1']);
+  });
+});
+
+describe('serializeKubernetesManifests', () => {
+  it('writes one YAML document per resource without anchors', () => {
+    const { resources } = buildKubernetesManifests(options({ nitroLimits: { cpu: '4', memory: '16Gi' } }));
+    const yaml = serializeKubernetesManifests(resources, 'Generated for my-chain');
+
+    assert.ok(yaml.startsWith('# Generated for my-chain\n'));
+    assert.ok(!yaml.includes('&a1'));
+    assert.deepEqual(
+      parseAllDocuments(yaml).map((document) => document.toJS()),
+      resources.map((resource) => JSON.parse(JSON.stringify(resource)))
+    );
+  });
+});
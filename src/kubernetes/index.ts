@@ -0,0 +1,491 @@
+import { createHash } from 'crypto';
+import { Document } from 'yaml';
+import { CELESTIA_SERVER_PORTS, CELESTIA_SERVER_RPC_PORT } from '../celestia-server/index.js';
+import { NITRO_ENV_PREFIX } from '../secrets/index.js';
+import { NITRO_FEED_PORT, NITRO_METRICS_PORT, NITRO_WS_PORT } from '../topology/index.js';
+
+// Only the fields the generator and validator look at are typed
+export interface KubernetesResource {
+  apiVersion: string;
+  kind: string;
+  metadata: {
+    name: string;
+    namespace?: string;
+    labels?: Record<string, string>;
+    annotations?: Record<string, string>;
+  };
+  [key: string]: any;
+}
+
+export interface KubernetesResourceLimits {
+  cpu?: string;
+  memory?: string;
+}
+
+export interface KubernetesManifestOptions {
+  // Prefix of every resource name, e.g. orbit-my-chain
+  name: string;
+  namespace?: string;
+  // Node config without secrets; they are passed through the Secret
+  nodeConfig: Record<string, any>;
+  nodeSecrets: Record<string, string>;
+  httpPort: number;
+  nitroImage: string;
+  celestiaServerImage: string;
+  // celestia-server command line, tokens referenced as $(NAME); without it no celestia-server is deployed
+  celestiaCommand?: string[];
+  celestiaSecrets: Record<string, string>;
+  // Reference this Secret instead of generating one
+  externalSecret?: string;
+  storageSize: string;
+  storageClass?: string;
+  celestiaKeysStorageSize: string;
+  nitroLimits?: KubernetesResourceLimits;
+  celestiaLimits?: KubernetesResourceLimits;
+}
+
+export interface KubernetesManifests {
+  resources: KubernetesResource[];
+  // Kept apart so the other manifests can be committed; undefined with externalSecret
+  secret?: KubernetesResource;
+}
+
+export class KubernetesValidationError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Generated Kubernetes manifests are invalid:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'KubernetesValidationError';
+  }
+}
+
+// The nitro image runs as uid/gid 1000 and must be able to write its volume
+const NITRO_FS_GROUP = 1000;
+const NITRO_CONFIG_DIR = '/config';
+const NITRO_DATA_DIR = '/home/user/.arbitrum/local/nitro';
+
+function resourceRequirements(limits: KubernetesResourceLimits | undefined): Record<string, unknown> | undefined {
+  if (!limits || (!limits.cpu && !limits.memory)) {
+    return undefined;
+  }
+  // Requests equal limits, so the scheduler reserves what the node may use
+  const values = { ...(limits.cpu && { cpu: limits.cpu }), ...(limits.memory && { memory: limits.memory }) };
+  return { requests: values, limits: values };
+}
+
+function secretEnv(secretName: string, keys: string[]): Record<string, unknown>[] {
+  return keys.map((key) => ({ name: key, valueFrom: { secretKeyRef: { name: secretName, key } } }));
+}
+
+// Point the da-provider at the celestia-server Service instead of the compose service name
+function withDaProviderService(nodeConfig: Record<string, any>, serviceName: string): Record<string, any> {
+  const config = structuredClone(nodeConfig);
+  const rpc = config.node?.['da-provider']?.rpc;
+  if (rpc?.url) {
+    const url = new URL(rpc.url);
+    if (url.hostname === 'celestia-server') {
+      url.hostname = serviceName;
+      rpc.url = url.toString().replace(/\/$/, '');
+    }
+  }
+  return config;
+}
+
+/**
+ * Builds the resources that run one chain: a StatefulSet for Nitro with its
+ * data volume, a Deployment for celestia-server with a key volume, Services
+ * for both, the node config as a ConfigMap and the keys and tokens as a Secret.
+ * Chains that don't post to Celestia get the Nitro resources only.
+ */
+export function buildKubernetesManifests(options: KubernetesManifestOptions): KubernetesManifests {
+  const { name, namespace, httpPort } = options;
+  const nitroName = `${name}-nitro`;
+  const celestiaName = `${name}-celestia-server`;
+  const secretName = options.externalSecret ?? `${name}-secrets`;
+  const configMapName = `${name}-node-config`;
+  const celestiaKeysClaim = `${name}-celestia-keys`;
+
+  const metadata = (resourceName: string, component?: string) => ({
+    name: resourceName,
+    ...(namespace && { namespace }),
+    labels: {
+      'app.kubernetes.io/name': 'orbit',
+      'app.kubernetes.io/instance': name,
+      ...(component && { 'app.kubernetes.io/component': component }),
+      'app.kubernetes.io/managed-by': 'orbit-sdk-scripts',
+    },
+  });
+  const selector = (component: string) => ({
+    'app.kubernetes.io/instance': name,
+    'app.kubernetes.io/component': component,
+  });
+
+  const nodeConfigJson = JSON.stringify(withDaProviderService(options.nodeConfig, celestiaName), null, 2);
+
+  const secret: KubernetesResource | undefined = options.externalSecret
+    ? undefined
+    : {
+        apiVersion: 'v1',
+        kind: 'Secret',
+        metadata: metadata(secretName),
+        type: 'Opaque',
+        stringData: { ...options.nodeSecrets, ...options.celestiaSecrets },
+      };
+
+  const configMap: KubernetesResource = {
+    apiVersion: 'v1',
+    kind: 'ConfigMap',
+    metadata: metadata(configMapName, 'nitro'),
+    data: { 'nodeConfig.json': nodeConfigJson },
+  };
+
+  const celestiaKeys: KubernetesResource = {
+    apiVersion: 'v1',
+    kind: 'PersistentVolumeClaim',
+    metadata: metadata(celestiaKeysClaim, 'celestia-server'),
+    spec: {
+      accessModes: ['ReadWriteOnce'],
+      ...(options.storageClass && { storageClassName: options.storageClass }),
+      resources: { requests: { storage: options.celestiaKeysStorageSize } },
+    },
+  };
+
+  const nitroPorts = [
+    { name: 'rpc', port: 8547, containerPort: httpPort },
+    { name: 'ws', port: 8548, containerPort: NITRO_WS_PORT },
+    { name: 'feed', port: 9642, containerPort: NITRO_FEED_PORT },
+    { name: 'metrics', port: 6070, containerPort: NITRO_METRICS_PORT },
+  ];
+  const celestiaPorts = CELESTIA_SERVER_PORTS.map((port) => ({
+    name: port === CELESTIA_SERVER_RPC_PORT ? 'rpc' : `port-${port}`,
+    port,
+    containerPort: port,
+  }));
+
+  const service = (serviceName: string, component: string, ports: typeof nitroPorts, headless = false) => ({
+    apiVersion: 'v1',
+    kind: 'Service',
+    metadata: metadata(serviceName, component),
+    spec: {
+      ...(headless && { clusterIP: 'None' }),
+      selector: selector(component),
+      ports: ports.map(({ name: portName, port }) => ({ name: portName, port, targetPort: portName })),
+    },
+  });
+
+  const celestiaDeployment: KubernetesResource = {
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: metadata(celestiaName, 'celestia-server'),
+    spec: {
+      replicas: 1,
+      // The key volume is ReadWriteOnce, so the old pod must stop first
+      strategy: { type: 'Recreate' },
+      selector: { matchLabels: selector('celestia-server') },
+      template: {
+        metadata: { labels: metadata(celestiaName, 'celestia-server').labels },
+        spec: {
+          containers: [
+            {
+              name: 'celestia-server',
+              image: options.celestiaServerImage,
+              command: options.celestiaCommand,
+              env: secretEnv(secretName, Object.keys(options.celestiaSecrets)),
+              ports: celestiaPorts.map(({ name: portName, containerPort }) => ({ name: portName, containerPort })),
+              volumeMounts: [{ name: 'celestia-keys', mountPath: '/home/celestia' }],
+              readinessProbe: { tcpSocket: { port: 'rpc' }, periodSeconds: 10 },
+              ...(resourceRequirements(options.celestiaLimits) && {
+                resources: resourceRequirements(options.celestiaLimits),
+              }),
+            },
+          ],
+          volumes: [{ name: 'celestia-keys', persistentVolumeClaim: { claimName: celestiaKeysClaim } }],
+        },
+      },
+    },
+  };
+
+  const nitroStatefulSet: KubernetesResource = {
+    apiVersion: 'apps/v1',
+    kind: 'StatefulSet',
+    metadata: metadata(nitroName, 'nitro'),
+    spec: {
+      serviceName: `${nitroName}-headless`,
+      replicas: 1,
+      selector: { matchLabels: selector('nitro') },
+      template: {
+        metadata: {
+          labels: metadata(nitroName, 'nitro').labels,
+          // Restarts the node when the config changes
+          annotations: { 'checksum/node-config': createHash('sha256').update(nodeConfigJson).digest('hex') },
+        },
+        spec: {
+          securityContext: { fsGroup: NITRO_FS_GROUP },
+          containers: [
+            {
+              name: 'nitro',
+              image: options.nitroImage,
+              args: [
+                '--conf.file',
+                `${NITRO_CONFIG_DIR}/nodeConfig.json`,
+                '--conf.env-prefix',
+                NITRO_ENV_PREFIX,
+              ],
+              env: secretEnv(secretName, Object.keys(options.nodeSecrets)),
+              ports: nitroPorts.map(({ name: portName, containerPort }) => ({ name: portName, containerPort })),
+              volumeMounts: [
+                { name: 'node-config', mountPath: NITRO_CONFIG_DIR, readOnly: true },
+                { name: 'data', mountPath: NITRO_DATA_DIR },
+              ],
+              readinessProbe: { tcpSocket: { port: 'rpc' }, initialDelaySeconds: 30, periodSeconds: 15 },
+              ...(resourceRequirements(options.nitroLimits) && { resources: resourceRequirements(options.nitroLimits) }),
+            },
+          ],
+          volumes: [{ name: 'node-config', configMap: { name: configMapName } }],
+        },
+      },
+      volumeClaimTemplates: [
+        {
+          metadata: { name: 'data' },
+          spec: {
+            accessModes: ['ReadWriteOnce'],
+            ...(options.storageClass && { storageClassName: options.storageClass }),
+            resources: { requests: { storage: options.storageSize } },
+          },
+        },
+      ],
+    },
+  };
+
+  const usesCelestia = options.celestiaCommand !== undefined;
+  return {
+    resources: [
+      configMap,
+      ...(usesCelestia ? [celestiaKeys, service(celestiaName, 'celestia-server', celestiaPorts)] : []),
+      service(nitroName, 'nitro', nitroPorts),
+      service(`${nitroName}-headless`, 'nitro', nitroPorts, true),
+      ...(usesCelestia ? [celestiaDeployment] : []),
+      nitroStatefulSet,
+    ],
+    secret,
+  };
+}
+
+const DNS_1123_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const DNS_1123_SUBDOMAIN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+const DNS_1035_LABEL = /^[a-z]([-a-z0-9]*[a-z0-9])?$/;
+const IANA_SVC_NAME = /^(?=.*[a-z])[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const LABEL_VALUE = /^(([A-Za-z0-9][-A-Za-z0-9_.]*)?[A-Za-z0-9])?$/;
+const CONFIG_KEY = /^[-._a-zA-Z0-9]+$/;
+const QUANTITY = /^\d+(\.\d+)?(m|k|M|G|T|P|E|Ki|Mi|Gi|Ti|Pi|Ei)?$/;
+const KNOWN_KINDS: Record<string, string[]> = {
+  v1: ['ConfigMap', 'Secret', 'Service', 'PersistentVolumeClaim'],
+  'apps/v1': ['Deployment', 'StatefulSet'],
+};
+// ConfigMaps and Secrets are stored in etcd, which caps objects at 1 MiB
+const MAX_CONFIG_SIZE = 1024 * 1024;
+
+function isPort(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535;
+}
+
+/**
+ * Checks the manifests offline against the parts of the Kubernetes API
+ * schema the API server would reject: name formats and lengths, label
+ * values, ports, quantities, and that every reference (selectors, volumes,
+ * ConfigMap and Secret keys, named ports, the StatefulSet's Service) resolves
+ * within the set. Secrets referenced but not included are reported unless
+ * listed in `externalSecrets`. Returns one message per problem.
+ */
+export function validateKubernetesManifests(
+  resources: KubernetesResource[],
+  externalSecrets: string[] = []
+): string[] {
+  const problems: string[] = [];
+  const find = (kind: string, name: string) =>
+    resources.find((resource) => resource.kind === kind && resource.metadata?.name === name);
+  const workloads = resources.filter((resource) => resource.kind === 'Deployment' || resource.kind === 'StatefulSet');
+
+  for (const resource of resources) {
+    const id = `${resource.kind ?? '?'}/${resource.metadata?.name ?? '?'}`;
+    const problem = (message: string) => problems.push(`${id}: ${message}`);
+
+    if (!KNOWN_KINDS[resource.apiVersion]?.includes(resource.kind)) {
+      problem(`unknown kind ${resource.kind} for apiVersion ${resource.apiVersion}`);
+      continue;
+    }
+    const { name, namespace, labels = {} } = resource.metadata ?? {};
+    if (typeof name !== 'string' || name.length > 253 || !DNS_1123_SUBDOMAIN.test(name)) {
+      problem('metadata.name must be a lowercase DNS subdomain of at most 253 characters');
+    }
+    if (namespace !== undefined && (namespace.length > 63 || !DNS_1123_LABEL.test(namespace))) {
+      problem(`namespace ${namespace} must be a lowercase DNS label of at most 63 characters`);
+    }
+    for (const [key, value] of Object.entries(labels)) {
+      if (typeof value !== 'string' || value.length > 63 || !LABEL_VALUE.test(value)) {
+        problem(`label ${key} has an invalid value ${JSON.stringify(value)}`);
+      }
+    }
+
+    if (resource.kind === 'ConfigMap' || resource.kind === 'Secret') {
+      const data: Record<string, unknown> = { ...resource.data, ...resource.stringData };
+      for (const [key, value] of Object.entries(data)) {
+        if (key.length > 253 || !CONFIG_KEY.test(key)) {
+          problem(`key ${key} may only contain letters, digits, '-', '_' and '.'`);
+        }
+        if (typeof value !== 'string') {
+          problem(`value of ${key} must be a string`);
+        }
+      }
+      if (JSON.stringify(data).length > MAX_CONFIG_SIZE) {
+        problem('data exceeds the 1 MiB object size limit');
+      }
+    }
+
+    if (resource.kind === 'PersistentVolumeClaim' && !QUANTITY.test(resource.spec?.resources?.requests?.storage ?? '')) {
+      problem('spec.resources.requests.storage must be a quantity such as 10Gi');
+    }
+
+    if (resource.kind === 'Service') {
+      if (name.length > 63 || !DNS_1035_LABEL.test(name)) {
+        problem('Service names must be DNS labels starting with a letter, at most 63 characters');
+      }
+      const ports: any[] = resource.spec?.ports ?? [];
+      if (ports.length === 0) {
+        problem('spec.ports is empty');
+      }
+      if (new Set(ports.map((port) => port.name)).size !== ports.length) {
+        problem('port names must be unique');
+      }
+      const target = workloads.find((workload) =>
+        Object.entries(resource.spec?.selector ?? {}).every(
+          ([key, value]) => workload.spec?.template?.metadata?.labels?.[key] === value
+        )
+      );
+      if (!target) {
+        problem('selector matches no workload');
+      }
+      const containerPorts: any[] = (target?.spec?.template?.spec?.containers ?? []).flatMap(
+        (container: any) => container.ports ?? []
+      );
+      for (const port of ports) {
+        if (!isPort(port.port)) {
+          problem(`port ${port.name} is out of range`);
+        }
+        if (typeof port.targetPort === 'string' && target && !containerPorts.some((entry) => entry.name === port.targetPort)) {
+          problem(`targetPort ${port.targetPort} is not a named port of ${target.kind}/${target.metadata.name}`);
+        }
+      }
+    }
+
+    if (resource.kind === 'Deployment' || resource.kind === 'StatefulSet') {
+      const spec = resource.spec ?? {};
+      const template = spec.template ?? {};
+      // Pods of a StatefulSet carry a controller-revision-hash label derived from its name
+      if (resource.kind === 'StatefulSet' && name.length > 52) {
+        problem('StatefulSet names must be at most 52 characters');
+      }
+      for (const [key, value] of Object.entries(spec.selector?.matchLabels ?? {})) {
+        if (template.metadata?.labels?.[key] !== value) {
+          problem(`selector label ${key} is missing from the pod template`);
+        }
+      }
+      if (resource.kind === 'StatefulSet') {
+        const governing = find('Service', spec.serviceName);
+        if (!governing) {
+          problem(`serviceName ${spec.serviceName} has no Service`);
+        } else if (governing.spec?.clusterIP !== 'None') {
+          problem(`serviceName ${spec.serviceName} must be a headless Service`);
+        }
+      }
+
+      const volumeNames = new Set<string>([
+        ...(template.spec?.volumes ?? []).map((volume: any) => volume.name),
+        ...(spec.volumeClaimTemplates ?? []).map((claim: any) => claim.metadata?.name),
+      ]);
+      for (const volume of template.spec?.volumes ?? []) {
+        if (volume.configMap && !find('ConfigMap', volume.configMap.name)) {
+          problem(`volume ${volume.name} references missing ConfigMap ${volume.configMap.name}`);
+        }
+        if (volume.persistentVolumeClaim && !find('PersistentVolumeClaim', volume.persistentVolumeClaim.claimName)) {
+          problem(`volume ${volume.name} references missing PersistentVolumeClaim ${volume.persistentVolumeClaim.claimName}`);
+        }
+      }
+      for (const claim of spec.volumeClaimTemplates ?? []) {
+        if (!QUANTITY.test(claim.spec?.resources?.requests?.storage ?? '')) {
+          problem(`volumeClaimTemplate ${claim.metadata?.name} needs a storage quantity such as 100Gi`);
+        }
+      }
+
+      const containers: any[] = template.spec?.containers ?? [];
+      if (containers.length === 0) {
+        problem('pod template has no containers');
+      }
+      for (const container of containers) {
+        const where = `container ${container.name}`;
+        if (!DNS_1123_LABEL.test(container.name ?? '') || container.name.length > 63) {
+          problem(`${where}: name must be a DNS label`);
+        }
+        if (!container.image) {
+          problem(`${where}: image is required`);
+        }
+        const ports: any[] = container.ports ?? [];
+        for (const port of ports) {
+          if (!isPort(port.containerPort)) {
+            problem(`${where}: containerPort ${port.containerPort} is out of range`);
+          }
+          if (port.name !== undefined && (port.name.length > 15 || !IANA_SVC_NAME.test(port.name))) {
+            problem(`${where}: port name ${port.name} must be at most 15 lowercase characters with a letter`);
+          }
+        }
+        if (new Set(ports.map((port) => port.name)).size !== ports.length) {
+          problem(`${where}: port names must be unique`);
+        }
+        for (const mount of container.volumeMounts ?? []) {
+          if (!volumeNames.has(mount.name)) {
+            problem(`${where}: volumeMount ${mount.name} has no volume`);
+          }
+        }
+        for (const env of container.env ?? []) {
+          const ref = env.valueFrom?.secretKeyRef;
+          if (!ref || externalSecrets.includes(ref.name)) {
+            continue;
+          }
+          const referenced = find('Secret', ref.name);
+          if (!referenced) {
+            problem(`${where}: env ${env.name} references missing Secret ${ref.name}`);
+          } else if (!(ref.key in { ...referenced.data, ...referenced.stringData })) {
+            problem(`${where}: env ${env.name} references missing key ${ref.key} of Secret ${ref.name}`);
+          }
+        }
+        for (const probe of [container.readinessProbe, container.livenessProbe]) {
+          const port = probe?.tcpSocket?.port ?? probe?.httpGet?.port;
+          if (typeof port === 'string' && !ports.some((entry) => entry.name === port)) {
+            problem(`${where}: probe port ${port} is not a named container port`);
+          }
+        }
+        for (const [kind, value] of Object.entries({ ...container.resources?.requests, ...container.resources?.limits })) {
+          if (!QUANTITY.test(String(value))) {
+            problem(`${where}: ${kind} ${value} is not a quantity (e.g. 500m, 4, 16Gi)`);
+          }
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+export function serializeKubernetesManifests(resources: KubernetesResource[], header?: string): string {
+  return resources
+    .map((resource, index) => {
+      // Shared objects (e.g. equal requests and limits) are written out, not as anchors
+      const document = new Document(resource, { aliasDuplicateObjects: false });
+      if (header && index === 0) {
+        document.commentBefore = header
+          .split('\n')
+          .map((line) => (line ? ` ${line}` : ''))
+          .join('\n');
+      }
+      return document.toString({ lineWidth: 0 });
+    })
+    .join('---\n');
+}
@@ -0,0 +1,703 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { getAddress, isAddress, zeroAddress, type Address, type Hex } from 'viem';
+import { parse as parseYaml } from 'yaml';
+import { consensusReleaseByWasmModuleRoot, findConsensusRelease, CONSENSUS_RELEASES } from '../consensus/index.js';
+import { NamespaceError, parseNamespace } from '../namespace/index.js';
+import type { CelestiaNamespace } from '../types/index.js';
+
+// Where batches are posted: Celestia through the DA provider, the parent chain
+// itself (calldata or blobs), or an AnyTrust committee
+export const DA_MODES = ['celestia', 'rollup', 'anytrust'] as const;
+export type DaMode = (typeof DA_MODES)[number];
+
+export interface DeploymentManifest {
+  chainId: number;
+  chainName: string;
+  parentChainId?: number;
+  validators?: Address[];
+  batchPoster?: Address;
+  nativeToken: Address;
+  wasmModuleRoot: Hex;
+  // Release in the bundled consensus table; resolves wasmModuleRoot when that isn't given
+  consensusVersion?: string;
+  rollupCreator?: Address;
+  maxDataSize: bigint;
+  maxFeePerGasForRetryables: bigint;
+  // Unset values fall back to the SDK defaults for the parent chain
+  rollup: {
+    owner?: Address;
+    confirmPeriodBlocks?: number;
+    extraChallengeTimeBlocks?: number;
+    baseStake?: bigint;
+    stakeToken?: Address;
+    loserStakeEscrow?: Address;
+    initialArbOSVersion?: number;
+    dataAvailabilityCommittee: boolean;
+  };
+  daMode: DaMode;
+  // Defaults to one derived from the chain ID
+  celestiaNamespace?: CelestiaNamespace;
+  daProvider: {
+    // Legacy switch (DA_PROVIDER_ENABLE); false without a DA mode selects rollup
+    enable?: boolean;
+    // Post batches to the parent chain when Celestia is unavailable
+    fallbackToEthereum: boolean;
+    url: string;
+    retries: number;
+    retryErrors: string;
+    argLogLimit: number;
+    websocketMessageSizeLimit: number;
+  };
+  anytrust?: {
+    dasServerUrl?: string;
+  };
+}
+
+type FieldType =
+  | 'integer'
+  | 'uint256'
+  | 'string'
+  | 'boolean'
+  | 'address'
+  | 'address[]'
+  | 'bytes32'
+  | 'namespace'
+  | 'enum';
+
+interface ManifestField {
+  // Dotted path into the manifest
+  path: string;
+  env?: string;
+  type: FieldType;
+  required?: boolean;
+  default?: unknown;
+  min?: bigint;
+  max?: bigint;
+  // Addresses only: reject the zero address
+  nonZero?: boolean;
+  // Enums only: the accepted values
+  values?: readonly string[];
+  description: string;
+}
+
+export const MANIFEST_FIELDS: ManifestField[] = [
+  {
+    path: 'chainId',
+    env: 'CHAIN_ID',
+    type: 'integer',
+    default: 412346,
+    min: 1n,
+    max: 2n ** 53n - 1n,
+    description: 'Orbit chain ID (must be unique)',
+  },
+  { path: 'chainName', env: 'CHAIN_NAME', type: 'string', default: 'My Orbit Chain', description: 'Orbit chain name' },
+  {
+    path: 'parentChainId',
+    env: 'PARENT_CHAIN_ID',
+    type: 'integer',
+    min: 1n,
+    description: 'Expected parent chain ID, checked against PARENT_CHAIN_RPC',
+  },
+  {
+    path: 'validators',
+    env: 'VALIDATOR_ADDRESSES',
+    type: 'address[]',
+    description: 'Validator addresses (defaults to the validator signer)',
+  },
+  {
+    path: 'batchPoster',
+    env: 'BATCH_POSTER_ADDRESS',
+    type: 'address',
+    description: 'Batch poster address (defaults to the batch poster signer, else the deployer)',
+  },
+  {
+    path: 'nativeToken',
+    env: 'NATIVE_TOKEN_ADDRESS',
+    type: 'address',
+    default: '0x0000000000000000000000000000000000000000',
+    description: 'ERC-20 gas token, or the zero address for ETH',
+  },
+  {
+    path: 'wasmModuleRoot',
+    env: 'WASM_ROOT',
+    type: 'bytes32',
+    description: 'Wasm module root used for validation (defaults to the root of consensusVersion)',
+  },
+  {
+    path: 'consensusVersion',
+    env: 'CONSENSUS_VERSION',
+    type: 'enum',
+    values: CONSENSUS_RELEASES.map(({ version }) => version),
+    description: 'celestiaorg/nitro consensus release; sets wasmModuleRoot from the bundled table, or checks it',
+  },
+  {
+    path: 'rollupCreator',
+    env: 'ROLLUP_CREATOR_ADDRESS',
+    type: 'address',
+    description: 'RollupCreator override (defaults to the SDK address for the parent chain)',
+  },
+  {
+    path: 'maxDataSize',
+    env: 'MAX_DATA_SIZE',
+    type: 'uint256',
+    default: '117964',
+    min: 1n,
+    description: 'Maximum batch data size',
+  },
+  {
+    path: 'maxFeePerGasForRetryables',
+    env: 'MAX_FEE_PER_GAS',
+    type: 'uint256',
+    default: '100000000',
+    description: 'Max fee per gas for the retryables created during deployment (wei)',
+  },
+  {
+    path: 'rollup.owner',
+    env: 'CHAIN_OWNER_ADDRESS',
+    type: 'address',
+    nonZero: true,
+    description: 'Rollup owner and initial chain owner, e.g. a multisig (defaults to the deployer)',
+  },
+  {
+    path: 'rollup.confirmPeriodBlocks',
+    env: 'CONFIRM_PERIOD_BLOCKS',
+    type: 'integer',
+    min: 1n,
+    max: 2n ** 53n - 1n,
+    description: 'Parent chain blocks before an assertion can be confirmed',
+  },
+  {
+    path: 'rollup.extraChallengeTimeBlocks',
+    env: 'EXTRA_CHALLENGE_TIME_BLOCKS',
+    type: 'integer',
+    min: 0n,
+    max: 2n ** 53n - 1n,
+    description: 'Extra parent chain blocks added to the challenge period',
+  },
+  {
+    path: 'rollup.baseStake',
+    env: 'BASE_STAKE',
+    type: 'uint256',
+    min: 1n,
+    description: 'Stake required to become a validator, in the stake token\'s smallest unit',
+  },
+  {
+    path: 'rollup.stakeToken',
+    env: 'STAKE_TOKEN_ADDRESS',
+    type: 'address',
+    nonZero: true,
+    description: 'ERC-20 validators stake (defaults to WETH on the parent chain)',
+  },
+  {
+    path: 'rollup.loserStakeEscrow',
+    env: 'LOSER_STAKE_ESCROW_ADDRESS',
+    type: 'address',
+    description: 'Receiver of stakes lost in challenges',
+  },
+  {
+    path: 'rollup.initialArbOSVersion',
+    env: 'INITIAL_ARBOS_VERSION',
+    type: 'integer',
+    min: 1n,
+    max: 255n,
+    description: 'ArbOS version the chain starts with',
+  },
+  {
+    path: 'rollup.dataAvailabilityCommittee',
+    env: 'DATA_AVAILABILITY_COMMITTEE',
+    type: 'boolean',
+    description: 'Set DataAvailabilityCommittee in the chain config (defaults to false in rollup mode, else true)',
+  },
+  {
+    path: 'daMode',
+    env: 'DA_MODE',
+    type: 'enum',
+    values: DA_MODES,
+    default: 'celestia',
+    description: 'Where batches are posted: celestia, rollup (parent chain calldata or blobs) or anytrust',
+  },
+  {
+    path: 'celestiaNamespace',
+    env: 'CELESTIA_NAMESPACE',
+    type: 'namespace',
+    description: 'Celestia namespace: 10-byte sub-ID, <version>:<id> or full namespace (derived from the chain ID if unset)',
+  },
+  {
+    path: 'daProvider.enable',
+    env: 'DA_PROVIDER_ENABLE',
+    type: 'boolean',
+    description: 'Use the Celestia DA provider; false selects rollup mode when daMode is unset',
+  },
+  {
+    path: 'daProvider.fallbackToEthereum',
+    env: 'DA_FALLBACK_TO_ETHEREUM',
+    type: 'boolean',
+    default: false,
+    description: 'Post batches to the parent chain when the DA provider fails (celestia mode)',
+  },
+  {
+    path: 'daProvider.url',
+    env: 'DA_PROVIDER_URL',
+    type: 'string',
+    default: 'http://celestia-server:26657',
+    description: 'DA provider RPC URL written to the node config',
+  },
+  {
+    path: 'daProvider.retries',
+    env: 'DA_PROVIDER_RETRIES',
+    type: 'integer',
+    default: 3,
+    min: 0n,
+    description: 'DA provider RPC retries',
+  },
+  {
+    path: 'daProvider.retryErrors',
+    env: 'DA_PROVIDER_RETRY_ERRORS',
+    type: 'string',
+    default: 'websocket: close.*|dial tcp .*|.*i/o timeout|.*connection reset by peer|.*connection refused',
+    description: 'Regex of DA provider errors to retry',
+  },
+  {
+    path: 'daProvider.argLogLimit',
+    env: 'DA_PROVIDER_ARG_LOG_LIMIT',
+    type: 'integer',
+    default: 2048,
+    min: 0n,
+    description: 'DA provider argument log limit',
+  },
+  {
+    path: 'daProvider.websocketMessageSizeLimit',
+    env: 'DA_PROVIDER_WS_MESSAGE_SIZE_LIMIT',
+    type: 'integer',
+    default: 256 * 1024 * 1024,
+    min: 1n,
+    description: 'DA provider websocket message size limit (bytes)',
+  },
+  {
+    path: 'anytrust.dasServerUrl',
+    env: 'DAS_SERVER_URL',
+    type: 'string',
+    description: 'AnyTrust DAS server URL, without port (anytrust mode; defaults to http://localhost)',
+  },
+];
+
+export interface ManifestFieldError {
+  field: string;
+  source: ManifestValueSource;
+  message: string;
+}
+
+export type ManifestValueSource = 'manifest' | 'env' | 'default';
+
+export class ManifestValidationError extends Error {
+  constructor(public readonly errors: ManifestFieldError[]) {
+    super(
+      `Invalid deployment manifest:\n` +
+        errors.map((error) => `  - ${error.field} (${error.source}): ${error.message}`).join('\n')
+    );
+    this.name = 'ManifestValidationError';
+  }
+}
+
+export interface ResolvedManifest {
+  manifest: DeploymentManifest;
+  // Where each field's value came from
+  sources: Record<string, ManifestValueSource>;
+  // Each field's value as given, before coercion (e.g. addresses before checksumming)
+  raw: Record<string, unknown>;
+}
+
+function getPath(target: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    target
+  );
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let cursor = target;
+  for (const key of keys.slice(0, -1)) {
+    cursor[key] = cursor[key] ?? {};
+    cursor = cursor[key] as Record<string, unknown>;
+  }
+  cursor[keys[keys.length - 1]] = value;
+}
+
+function collectPaths(value: unknown, prefix = ''): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [prefix];
+  }
+  return Object.entries(value).flatMap(([key, entry]) => collectPaths(entry, prefix ? `${prefix}.${key}` : key));
+}
+
+// Coerces a manifest or env value to the field's type, returning an error message on failure
+function coerceField(field: ManifestField, raw: unknown): { value?: unknown; error?: string } {
+  switch (field.type) {
+    case 'string':
+      if (typeof raw !== 'string' || raw.length === 0) {
+        return { error: 'must be a non-empty string' };
+      }
+      return { value: raw };
+
+    case 'boolean':
+      if (typeof raw === 'boolean') {
+        return { value: raw };
+      }
+      if (raw === 'true' || raw === 'false') {
+        return { value: raw === 'true' };
+      }
+      return { error: 'must be true or false' };
+
+    case 'integer':
+    case 'uint256': {
+      const text = typeof raw === 'number' || typeof raw === 'bigint' ? String(raw) : raw;
+      if (typeof text !== 'string' || !/^\d+$/.test(text.trim())) {
+        return { error: 'must be a non-negative integer' };
+      }
+      const parsed = BigInt(text.trim());
+      if (field.type === 'uint256' && parsed >= 2n ** 256n) {
+        return { error: 'must fit in a uint256' };
+      }
+      if (field.min !== undefined && parsed < field.min) {
+        return { error: `must be at least ${field.min}` };
+      }
+      if (field.max !== undefined && parsed > field.max) {
+        return { error: `must be at most ${field.max}` };
+      }
+      return { value: field.type === 'integer' ? Number(parsed) : parsed };
+    }
+
+    case 'address': {
+      if (typeof raw !== 'string' || !isAddress(raw.trim())) {
+        return { error: `${JSON.stringify(raw)} is not a valid address` };
+      }
+      if (field.nonZero && raw.trim().toLowerCase() === zeroAddress) {
+        return { error: 'must not be the zero address' };
+      }
+      return { value: getAddress(raw.trim()) };
+    }
+
+    case 'address[]': {
+      const entries = typeof raw === 'string' ? raw.split(',') : raw;
+      if (!Array.isArray(entries) || entries.length === 0) {
+        return { error: 'must be a non-empty list of addresses' };
+      }
+      const addresses: Address[] = [];
+      for (const [index, entry] of entries.entries()) {
+        if (typeof entry !== 'string' || !isAddress(entry.trim())) {
+          return { error: `entry ${index} (${JSON.stringify(entry)}) is not a valid address` };
+        }
+        addresses.push(getAddress(entry.trim()));
+      }
+      if (new Set(addresses).size !== addresses.length) {
+        return { error: 'contains duplicate addresses' };
+      }
+      return { value: addresses };
+    }
+
+    case 'bytes32': {
+      if (typeof raw !== 'string') {
+        return { error: 'must be a 32-byte hex string' };
+      }
+      const hex = raw.trim().startsWith('0x') ? raw.trim() : `0x${raw.trim()}`;
+      if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) {
+        return { error: `${JSON.stringify(raw)} is not a 32-byte hex string` };
+      }
+      return { value: hex.toLowerCase() };
+    }
+
+    case 'enum':
+      if (typeof raw !== 'string' || !field.values?.includes(raw.trim())) {
+        return { error: `must be one of: ${field.values?.join(', ')}` };
+      }
+      return { value: raw.trim() };
+
+    case 'namespace': {
+      if (typeof raw !== 'string') {
+        return { error: 'must be a hex string' };
+      }
+      try {
+        return { value: parseNamespace(raw) };
+      } catch (error) {
+        if (error instanceof NamespaceError) {
+          return { error: error.message };
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Reads a JSON or YAML manifest file. The format is picked from the
+ * extension, anything other than .json is parsed as YAML.
+ */
+export function readManifestFile(path: string): Record<string, unknown> {
+  const content = readFileSync(path, 'utf8');
+  const parsed = extname(path) === '.json' ? JSON.parse(content) : parseYaml(content);
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Manifest ${path} must contain an object at the top level`);
+  }
+  return parsed;
+}
+
+/**
+ * Validates a raw manifest, applying environment variable overrides and
+ * defaults. All field errors are collected and thrown together. With paths,
+ * only the fields under them are resolved (e.g. ['daProvider']).
+ */
+export function resolveManifest(
+  raw: Record<string, unknown>,
+  env: Record<string, string | undefined> = {},
+  paths?: string[]
+): ResolvedManifest {
+  const errors: ManifestFieldError[] = [];
+  const manifest: Record<string, unknown> = {};
+  const sources: Record<string, ManifestValueSource> = {};
+  const rawValues: Record<string, unknown> = {};
+
+  const knownPaths = new Set(MANIFEST_FIELDS.map((field) => field.path));
+  for (const path of collectPaths(raw)) {
+    if (path && !knownPaths.has(path)) {
+      errors.push({ field: path, source: 'manifest', message: 'unknown field' });
+    }
+  }
+
+  const fields = paths
+    ? MANIFEST_FIELDS.filter((field) => paths.some((path) => field.path === path || field.path.startsWith(`${path}.`)))
+    : MANIFEST_FIELDS;
+  for (const field of fields) {
+    const envValue = field.env ? env[field.env] : undefined;
+    const manifestValue = getPath(raw, field.path);
+
+    let value: unknown;
+    let source: ManifestValueSource;
+    if (envValue !== undefined && envValue !== '') {
+      value = envValue;
+      source = 'env';
+    } else if (manifestValue !== undefined && manifestValue !== null) {
+      value = manifestValue;
+      source = 'manifest';
+    } else if (field.default !== undefined) {
+      value = field.default;
+      source = 'default';
+    } else {
+      if (field.required) {
+        errors.push({
+          field: field.path,
+          source: 'manifest',
+          message: `is required${field.env ? ` (set it in the manifest or ${field.env})` : ''}`,
+        });
+      }
+      continue;
+    }
+
+    const coerced = coerceField(field, value);
+    if (coerced.error) {
+      const label = source === 'env' ? `${field.path} [${field.env}]` : field.path;
+      errors.push({ field: label, source, message: coerced.error });
+      continue;
+    }
+
+    setPath(manifest, field.path, coerced.value);
+    sources[field.path] = source;
+    rawValues[field.path] = value;
+  }
+
+  if (errors.length === 0) {
+    errors.push(...resolveDaMode(manifest as unknown as DeploymentManifest, sources));
+    if (fields.some((field) => field.path === 'wasmModuleRoot')) {
+      errors.push(...resolveWasmModuleRoot(manifest as unknown as DeploymentManifest, sources));
+    }
+  }
+  if (errors.length > 0) {
+    throw new ManifestValidationError(errors);
+  }
+
+  return { manifest: manifest as unknown as DeploymentManifest, sources, raw: rawValues };
+}
+
+// Fills in the wasm module root from consensusVersion, or checks a given root against it
+function resolveWasmModuleRoot(
+  manifest: DeploymentManifest,
+  sources: Record<string, ManifestValueSource>
+): ManifestFieldError[] {
+  const { consensusVersion, wasmModuleRoot } = manifest;
+  if (consensusVersion === undefined) {
+    if (wasmModuleRoot === undefined) {
+      return [
+        {
+          field: 'wasmModuleRoot',
+          source: 'manifest',
+          message: 'is required (set it in the manifest or WASM_ROOT, or pick a consensusVersion / CONSENSUS_VERSION)',
+        },
+      ];
+    }
+    return [];
+  }
+
+  // The field only accepts versions in the table
+  const release = findConsensusRelease(consensusVersion)!;
+  if (wasmModuleRoot === undefined) {
+    manifest.wasmModuleRoot = release.wasmModuleRoot;
+    sources.wasmModuleRoot = sources.consensusVersion;
+    return [];
+  }
+  if (wasmModuleRoot.toLowerCase() !== release.wasmModuleRoot.toLowerCase()) {
+    const other = consensusReleaseByWasmModuleRoot(wasmModuleRoot);
+    return [
+      {
+        field: sources.wasmModuleRoot === 'env' ? 'wasmModuleRoot [WASM_ROOT]' : 'wasmModuleRoot',
+        source: sources.wasmModuleRoot,
+        message:
+          `${other ? `belongs to consensus ${other.version}` : 'is not in the consensus table'}, ` +
+          `but consensusVersion ${release.version} has ${release.wasmModuleRoot}`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Reconciles the DA mode with the fields that depend on it: DA_PROVIDER_ENABLE
+ * picks rollup mode when no mode is given, and DataAvailabilityCommittee
+ * follows the mode unless set. Returns the conflicts.
+ */
+function resolveDaMode(manifest: DeploymentManifest, sources: Record<string, ManifestValueSource>): ManifestFieldError[] {
+  const errors: ManifestFieldError[] = [];
+  const providerEnabled = manifest.daProvider.enable;
+
+  if (providerEnabled === false && sources.daMode === 'default') {
+    manifest.daMode = 'rollup';
+    sources.daMode = sources['daProvider.enable'];
+  } else if (providerEnabled !== undefined && providerEnabled !== (manifest.daMode === 'celestia')) {
+    errors.push({
+      field: 'daProvider.enable [DA_PROVIDER_ENABLE]',
+      source: sources['daProvider.enable'],
+      message: `is ${providerEnabled}, but daMode is ${manifest.daMode}`,
+    });
+  }
+
+  // The rollup section only exists once one of its fields is set
+  const committee = manifest.rollup?.dataAvailabilityCommittee;
+  if (committee === undefined) {
+    manifest.rollup = { ...manifest.rollup, dataAvailabilityCommittee: manifest.daMode !== 'rollup' };
+    sources['rollup.dataAvailabilityCommittee'] = 'default';
+  } else if (committee !== (manifest.daMode === 'anytrust') && manifest.daMode !== 'celestia') {
+    errors.push({
+      field: 'rollup.dataAvailabilityCommittee',
+      source: sources['rollup.dataAvailabilityCommittee'],
+      message: `must be ${!committee} in ${manifest.daMode} mode`,
+    });
+  }
+
+  if (manifest.daProvider.fallbackToEthereum && manifest.daMode !== 'celestia') {
+    errors.push({
+      field: 'daProvider.fallbackToEthereum',
+      source: sources['daProvider.fallbackToEthereum'],
+      message: `only applies in celestia mode (daMode is ${manifest.daMode})`,
+    });
+  }
+  return errors;
+}
+
+/**
+ * Loads the deployment manifest passed via --manifest (if any) and resolves
+ * it against the environment. Without a manifest, the environment and
+ * defaults are validated on their own.
+ */
+export function loadDeploymentManifest(
+  manifestPath: string | undefined,
+  env: Record<string, string | undefined> = process.env
+): ResolvedManifest {
+  const raw = manifestPath ? readManifestFile(manifestPath) : {};
+  return resolveManifest(raw, env);
+}
+
+// The settings a node config is built from; the rest of the manifest only matters when deploying
+export type NodeConfigManifest = Pick<DeploymentManifest, 'daMode' | 'daProvider' | 'anytrust' | 'rollupCreator'>;
+
+export function loadNodeConfigManifest(
+  manifestPath: string | undefined,
+  env: Record<string, string | undefined> = process.env
+): NodeConfigManifest {
+  const raw = manifestPath ? readManifestFile(manifestPath) : {};
+  return resolveManifest(raw, env, ['daMode', 'daProvider', 'anytrust', 'rollupCreator']).manifest;
+}
+
+// JSON schema for editor support and review tooling
+export function manifestJsonSchema(): Record<string, unknown> {
+  const schemaFor = (field: ManifestField): Record<string, unknown> => {
+    switch (field.type) {
+      case 'string':
+        return { type: 'string', minLength: 1 };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'integer':
+        return {
+          type: 'integer',
+          ...(field.min !== undefined && { minimum: Number(field.min) }),
+          ...(field.max !== undefined && { maximum: Number(field.max) }),
+        };
+      case 'uint256':
+        return { type: ['string', 'integer'], pattern: '^[0-9]+$' };
+      case 'address':
+        return { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' };
+      case 'address[]':
+        return {
+          type: 'array',
+          minItems: 1,
+          uniqueItems: true,
+          items: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' },
+        };
+      case 'bytes32':
+        return { type: 'string', pattern: '^(0x)?[0-9a-fA-F]{64}$' };
+      case 'enum':
+        return { type: 'string', enum: field.values };
+      case 'namespace':
+        // Reserved ranges are only caught by validate-manifest
+        return {
+          type: 'string',
+          pattern: '^((0x[0-9a-fA-F]{1,2}|[0-9]{1,3}):)?(0x)?([0-9a-fA-F]{20}|[0-9a-fA-F]{56}|[0-9a-fA-F]{58})$',
+        };
+    }
+  };
+
+  const root: Record<string, any> = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Orbit deployment manifest',
+    type: 'object',
+    additionalProperties: false,
+    properties: {},
+    required: [],
+  };
+
+  for (const field of MANIFEST_FIELDS) {
+    const keys = field.path.split('.');
+    let node = root;
+    for (const key of keys.slice(0, -1)) {
+      node.properties[key] = node.properties[key] ?? {
+        type: 'object',
+        additionalProperties: false,
+        properties: {},
+        required: [],
+      };
+      node = node.properties[key];
+    }
+
+    const leaf = keys[keys.length - 1];
+    node.properties[leaf] = {
+      description: field.env ? `${field.description} (env: ${field.env})` : field.description,
+      ...schemaFor(field),
+      ...(field.default !== undefined && { default: field.default }),
+    };
+    if (field.required && !field.env) {
+      node.required.push(leaf);
+    }
+  }
+
+  return root;
+}
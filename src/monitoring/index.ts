@@ -0,0 +1,224 @@
+import { stringify } from 'yaml';
+import { NITRO_METRICS_PORT } from '../topology/index.js';
+
+export const DEFAULT_PROMETHEUS_IMAGE = 'prom/prometheus:v2.53.0';
+export const DEFAULT_GRAFANA_IMAGE = 'grafana/grafana:11.1.0';
+export const PROMETHEUS_PORT = 9090;
+export const GRAFANA_PORT = 3000;
+
+// Nitro and celestia-server share geth's metrics server and its Prometheus endpoint
+export const METRICS_PATH = '/debug/metrics/prometheus';
+
+// The datasource UID the dashboard refers to
+const DATASOURCE_UID = 'orbit-prometheus';
+
+export interface ScrapeTarget {
+  job: string;
+  // host:port
+  target: string;
+  labels?: Record<string, string>;
+}
+
+export function hasNodeMetrics(config: Record<string, any>): boolean {
+  return config.metrics === true && config['metrics-server']?.addr === '0.0.0.0';
+}
+
+// Turns on Nitro's metrics server on all interfaces so Prometheus can reach it
+export function enableNodeMetrics(config: Record<string, any>): Record<string, any> {
+  return {
+    ...config,
+    metrics: true,
+    'metrics-server': { ...config['metrics-server'], addr: '0.0.0.0', port: NITRO_METRICS_PORT },
+  };
+}
+
+export interface MonitoringFiles {
+  // Paths relative to the monitoring directory
+  [path: string]: string;
+}
+
+/**
+ * Builds the Prometheus config, its alert rules, the Grafana provisioning
+ * files and the chain dashboard. Prometheus config lives in the root of the
+ * directory, Grafana's in grafana/provisioning and grafana/dashboards.
+ */
+export function monitoringFiles(
+  chain: { name: string; id: number },
+  targets: ScrapeTarget[],
+  prometheusUrl: string
+): MonitoringFiles {
+  const jobs = [...new Set(targets.map((target) => target.job))];
+  // Chains in the rollup and anytrust DA modes run without celestia-server
+  const celestia = jobs.includes('celestia-server');
+
+  const prometheus = {
+    global: {
+      scrape_interval: '15s',
+      evaluation_interval: '15s',
+      external_labels: { chain: chain.name, chain_id: String(chain.id) },
+    },
+    rule_files: ['/etc/prometheus/alerts.yml'],
+    scrape_configs: jobs.map((job) => ({
+      job_name: job,
+      metrics_path: METRICS_PATH,
+      static_configs: targets
+        .filter((target) => target.job === job)
+        .map((target) => ({ targets: [target.target], ...(target.labels && { labels: target.labels }) })),
+    })),
+  };
+
+  const alerts = {
+    groups: [
+      {
+        name: 'orbit',
+        rules: [
+          {
+            alert: 'BatchPostingStalled',
+            expr: 'delta(arb_inbox_latest_batch[30m]) == 0 and arb_batchposter_estimated_batch_backlog > 0',
+            for: '10m',
+            labels: { severity: 'critical' },
+            annotations: { summary: 'No batch posted for 30 minutes while messages are waiting' },
+          },
+          ...(celestia
+            ? [
+                {
+                  alert: 'CelestiaBlobSubmissionFailing',
+                  expr: 'increase(celestia_action_failure[15m]) > 0',
+                  labels: { severity: 'warning' },
+                  annotations: { summary: 'celestia-server failed to submit blobs in the last 15 minutes' },
+                },
+              ]
+            : []),
+          {
+            alert: 'StakerActionsFailing',
+            expr: 'increase(arb_staker_action_failure[30m]) > 0',
+            labels: { severity: 'warning' },
+            annotations: { summary: 'The staker failed to act on assertions in the last 30 minutes' },
+          },
+        ],
+      },
+    ],
+  };
+
+  const datasources = {
+    apiVersion: 1,
+    datasources: [
+      { name: 'Prometheus', uid: DATASOURCE_UID, type: 'prometheus', access: 'proxy', url: prometheusUrl, isDefault: true },
+    ],
+  };
+
+  const dashboardProviders = {
+    apiVersion: 1,
+    providers: [
+      { name: 'orbit', folder: 'Orbit', type: 'file', options: { path: '/etc/grafana/dashboards' } },
+    ],
+  };
+
+  return {
+    'prometheus.yml': stringify(prometheus),
+    'alerts.yml': stringify(alerts),
+    'grafana/provisioning/datasources/prometheus.yml': stringify(datasources),
+    'grafana/provisioning/dashboards/orbit.yml': stringify(dashboardProviders),
+    'grafana/dashboards/orbit.json': JSON.stringify(orbitDashboard(chain, celestia), null, 2),
+  };
+}
+
+interface PanelQuery {
+  expr: string;
+  legend: string;
+}
+
+/**
+ * The chain dashboard: batch posting, how far the posted inbox trails the
+ * chain head, Celestia blob submissions (when the chain uses Celestia) and
+ * staker assertions.
+ */
+export function orbitDashboard(chain: { name: string; id: number }, celestia = true): Record<string, unknown> {
+  const panels: Record<string, unknown>[] = [];
+  let y = 0;
+  let column = 0;
+
+  const row = (title: string) => {
+    y += column * 8;
+    column = 0;
+    panels.push({ type: 'row', title, collapsed: false, gridPos: { x: 0, y, w: 24, h: 1 } });
+    y += 1;
+  };
+  // Two panels side by side
+  const panel = (title: string, queries: PanelQuery[], unit = 'short') => {
+    const x = column * 12;
+    panels.push({
+      type: 'timeseries',
+      title,
+      datasource: { type: 'prometheus', uid: DATASOURCE_UID },
+      fieldConfig: { defaults: { unit }, overrides: [] },
+      targets: queries.map(({ expr, legend }, index) => ({
+        refId: String.fromCharCode(65 + index),
+        expr,
+        legendFormat: legend,
+      })),
+      gridPos: { x, y, w: 12, h: 8 },
+    });
+    column += 1;
+    if (column === 2) {
+      y += 8;
+      column = 0;
+    }
+  };
+
+  row('Batch posting');
+  panel('Batch backlog', [{ expr: 'arb_batchposter_estimated_batch_backlog', legend: '{{service}}' }]);
+  panel('Batches posted per hour', [{ expr: 'delta(arb_inbox_latest_batch[1h])', legend: '{{service}}' }]);
+  panel('Latest posted batch', [{ expr: 'arb_inbox_latest_batch', legend: '{{service}}' }]);
+  panel('Batch poster balance', [{ expr: 'arb_batchposter_wallet_eth', legend: 'ETH' }]);
+
+  row('L1 inbox lag');
+  panel('Blocks not yet in a posted batch', [
+    {
+      expr: 'max by (service) (chain_head_block) - max by (service) (arb_inbox_latest_batch_message)',
+      legend: '{{service}}',
+    },
+  ]);
+  panel('Chain head and posted messages', [
+    { expr: 'chain_head_block', legend: 'head {{service}}' },
+    { expr: 'arb_inbox_latest_batch_message', legend: 'posted {{service}}' },
+  ]);
+
+  if (celestia) {
+    row('Celestia DA');
+    panel(
+      'Blob submissions',
+      [
+        { expr: 'rate(celestia_action_success[5m])', legend: 'succeeded' },
+        { expr: 'rate(celestia_action_failure[5m])', legend: 'failed' },
+      ],
+      'ops'
+    );
+    panel('Time since last successful submission', [{ expr: 'time() - celestia_action_last_success', legend: 'age' }], 's');
+  }
+
+  row('Staker');
+  panel('Assertions', [
+    { expr: 'arb_staker_staked_node', legend: 'staked' },
+    { expr: 'arb_staker_confirmed_node', legend: 'confirmed' },
+  ]);
+  panel(
+    'Staker actions',
+    [
+      { expr: 'rate(arb_staker_action_success[5m])', legend: 'succeeded' },
+      { expr: 'rate(arb_staker_action_failure[5m])', legend: 'failed' },
+    ],
+    'ops'
+  );
+
+  return {
+    uid: `orbit-${chain.id}`,
+    title: `Orbit chain ${chain.name} (${chain.id})`,
+    tags: celestia ? ['orbit', 'celestia'] : ['orbit'],
+    timezone: 'browser',
+    refresh: '30s',
+    time: { from: 'now-6h', to: 'now' },
+    schemaVersion: 39,
+    panels: panels.map((entry, index) => ({ id: index + 1, ...entry })),
+  };
+}
@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import type { Hex } from 'viem';
+import type { DeploymentRecord } from '../deployments/index.js';
+import type { CelestiaNamespace } from '../types/index.js';
+
+// A Celestia namespace is a version byte followed by a 28-byte ID. Version 0
+// IDs start with 18 zero bytes, leaving 10 bytes to choose: the sub-ID that
+// celestia-server takes as --celestia.namespace-id.
+export const NAMESPACE_ID_SIZE = 28;
+export const NAMESPACE_SUB_ID_SIZE = 10;
+export const NAMESPACE_VERSION_ZERO = 0;
+// Parity and tail padding shares use version 255
+export const NAMESPACE_VERSION_MAX = 255;
+
+const ZERO_PREFIX = '00'.repeat(NAMESPACE_ID_SIZE - NAMESPACE_SUB_ID_SIZE);
+
+export class NamespaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NamespaceError';
+  }
+}
+
+function parseVersion(text: string): number {
+  const version = /^0x[0-9a-f]{1,2}$/i.test(text) ? parseInt(text, 16) : /^\d{1,3}$/.test(text) ? Number(text) : NaN;
+  if (!(version >= 0 && version <= NAMESPACE_VERSION_MAX)) {
+    throw new NamespaceError(`Namespace version "${text}" must be a byte (0-255)`);
+  }
+  return version;
+}
+
+function parseId(text: string): string {
+  const hex = text.replace(/^0x/i, '').toLowerCase();
+  if (!/^[0-9a-f]*$/.test(hex)) {
+    throw new NamespaceError(`Namespace ID "${text}" is not hex`);
+  }
+  if (hex.length === NAMESPACE_SUB_ID_SIZE * 2) {
+    return ZERO_PREFIX + hex;
+  }
+  if (hex.length === NAMESPACE_ID_SIZE * 2) {
+    return hex;
+  }
+  throw new NamespaceError(
+    `Namespace ID "${text}" has ${hex.length} hex characters; expected ${NAMESPACE_SUB_ID_SIZE * 2} ` +
+      `(a ${NAMESPACE_SUB_ID_SIZE}-byte sub-ID) or ${NAMESPACE_ID_SIZE * 2} (a full ${NAMESPACE_ID_SIZE}-byte ID)`
+  );
+}
+
+/**
+ * Checks a namespace can hold rollup blobs: only version 0 is open to users,
+ * its IDs must start with 18 zero bytes, and IDs up to 0x...ff are reserved
+ * for the protocol.
+ */
+export function validateNamespace(namespace: CelestiaNamespace): CelestiaNamespace {
+  const id = namespace.id.replace(/^0x/i, '').toLowerCase();
+  if (!new RegExp(`^[0-9a-f]{${NAMESPACE_ID_SIZE * 2}}$`).test(id)) {
+    throw new NamespaceError(`Namespace ID ${namespace.id} must be ${NAMESPACE_ID_SIZE} bytes of hex`);
+  }
+  if (namespace.version === NAMESPACE_VERSION_MAX) {
+    throw new NamespaceError('Namespace version 255 is reserved for parity and tail padding shares');
+  }
+  if (namespace.version !== NAMESPACE_VERSION_ZERO) {
+    throw new NamespaceError(`Namespace version ${namespace.version} is not supported; blobs use version 0`);
+  }
+  if (!id.startsWith(ZERO_PREFIX)) {
+    throw new NamespaceError(
+      `Version 0 namespace IDs must start with ${NAMESPACE_ID_SIZE - NAMESPACE_SUB_ID_SIZE} zero bytes`
+    );
+  }
+  if (/^0*[0-9a-f]{0,2}$/.test(id)) {
+    throw new NamespaceError(`Namespace 0x${id} is in the reserved range 0x00...00-0x00...ff`);
+  }
+  return { version: namespace.version, id: `0x${id}` };
+}
+
+/**
+ * Parses a namespace given as a 10-byte sub-ID, a 28-byte ID, a 29-byte
+ * version-prefixed namespace, or <version>:<id> (e.g. 0:0123456789abcdef0123).
+ */
+export function parseNamespace(input: string): CelestiaNamespace {
+  const text = input.trim();
+  const separator = text.indexOf(':');
+  if (separator !== -1) {
+    return validateNamespace({
+      version: parseVersion(text.slice(0, separator)),
+      id: `0x${parseId(text.slice(separator + 1))}`,
+    });
+  }
+
+  const hex = text.replace(/^0x/i, '');
+  if (hex.length === (NAMESPACE_ID_SIZE + 1) * 2) {
+    return validateNamespace({ version: parseVersion(`0x${hex.slice(0, 2)}`), id: `0x${parseId(hex.slice(2))}` });
+  }
+  return validateNamespace({ version: NAMESPACE_VERSION_ZERO, id: `0x${parseId(hex)}` });
+}
+
+// The namespace used when none is given: the first 10 bytes of sha256("orbit-<chainId>")
+export function deriveNamespace(chainId: number): CelestiaNamespace {
+  const hash = createHash('sha256').update(`orbit-${chainId}`).digest('hex');
+  return validateNamespace({
+    version: NAMESPACE_VERSION_ZERO,
+    id: `0x${ZERO_PREFIX}${hash.slice(0, NAMESPACE_SUB_ID_SIZE * 2)}`,
+  });
+}
+
+// The sub-ID as celestia-server's --celestia.namespace-id expects it (hex, no 0x)
+export function namespaceSubId(namespace: CelestiaNamespace): string {
+  return namespace.id.slice(-NAMESPACE_SUB_ID_SIZE * 2);
+}
+
+// The full 29-byte namespace, version byte first
+export function formatNamespace(namespace: CelestiaNamespace): Hex {
+  return `0x${namespace.version.toString(16).padStart(2, '0')}${namespace.id.slice(2)}`;
+}
+
+export function isSameNamespace(a: CelestiaNamespace, b: CelestiaNamespace): boolean {
+  return formatNamespace(a).toLowerCase() === formatNamespace(b).toLowerCase();
+}
+
+export interface ChainNamespace {
+  namespace: CelestiaNamespace;
+  // Where the namespace came from, for display
+  source: string;
+  // The deployment file has no namespace yet, or a different one is replacing it
+  record: boolean;
+}
+
+/**
+ * Picks a chain's namespace: the one recorded in its deployment file, else
+ * the requested one, else one derived from the chain ID. Requesting a
+ * different namespace than the recorded one fails unless `replace` is set,
+ * since batches already posted stay in the old namespace.
+ */
+export function resolveChainNamespace({
+  chainId,
+  deployment,
+  requested,
+  replace = false,
+}: {
+  chainId: number;
+  deployment?: DeploymentRecord;
+  requested?: CelestiaNamespace;
+  replace?: boolean;
+}): ChainNamespace {
+  const recorded = deployment?.info.celestiaNamespace;
+
+  if (recorded && requested && !isSameNamespace(recorded, requested)) {
+    if (!replace) {
+      throw new NamespaceError(
+        `${deployment!.file} records namespace ${formatNamespace(recorded)} for chain ${chainId}, ` +
+          `not ${formatNamespace(requested)}. Batches already posted stay in the old namespace; ` +
+          `pass --replace-namespace to switch anyway`
+      );
+    }
+    return { namespace: requested, source: '--celestia-namespace, replacing the recorded one', record: true };
+  }
+  if (recorded) {
+    return { namespace: recorded, source: `recorded in ${deployment!.file}`, record: false };
+  }
+  return requested
+    ? { namespace: requested, source: '--celestia-namespace', record: Boolean(deployment) }
+    : { namespace: deriveNamespace(chainId), source: 'auto-generated from chain ID', record: Boolean(deployment) };
+}
@@ -0,0 +1,238 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { sepolia } from 'viem/chains';
+import type { DeploymentInfo } from '../types/index.js';
+import {
+  applyDaNodeConfig,
+  chainConfigFromDeployment,
+  changedConfigPaths,
+  coreContractsFromDeployment,
+  NodeConfigError,
+  nodeConfigChainId,
+  nodeConfigDaMode,
+  prepareChainNodeConfig,
+  withExternalSigner,
+  type CelestiaNodeConfig,
+  type DaProviderSettings,
+  type NodeSigner,
+} from './index.js';
+
+// Anvil's first two development keys
+const BATCH_POSTER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const VALIDATOR_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const SIGNER_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const DEPLOYMENT: DeploymentInfo = {
+  version: 2,
+  chainId: 412346,
+  chainName: 'my-chain',
+  parentChain: 'sepolia',
+  parentChainId: 11155111,
+  deployer: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  deployedAt: '2026-01-01T00:00:00.000Z',
+  transactionHash: '0x' + '11'.repeat(32),
+  blockNumber: 7000000,
+  validators: [SIGNER_ADDRESS],
+  batchPoster: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  nativeToken: '0x0000000000000000000000000000000000000000',
+  rollupParameters: {
+    owner: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    confirmPeriodBlocks: 150,
+    extraChallengeTimeBlocks: 0,
+    baseStake: '100000000000000000',
+    stakeToken: '0x0000000000000000000000000000000000000000',
+    loserStakeEscrow: '0x0000000000000000000000000000000000000000',
+    wasmModuleRoot: '0x597de35fc2ee60e5b2840157370d037542d6a4bc587af7f88202636c54e6bd8d',
+    initialArbOSVersion: 40,
+    dataAvailabilityCommittee: false,
+  },
+  daMode: 'celestia',
+  contracts: {
+    rollup: '0x1000000000000000000000000000000000000001',
+    inbox: '0x1000000000000000000000000000000000000002',
+    outbox: '0x1000000000000000000000000000000000000003',
+    rollupEventInbox: '0x1000000000000000000000000000000000000004',
+    challengeManager: '0x1000000000000000000000000000000000000005',
+    adminProxy: '0x1000000000000000000000000000000000000006',
+    sequencerInbox: '0x1000000000000000000000000000000000000007',
+    bridge: '0x1000000000000000000000000000000000000008',
+    upgradeExecutor: '0x1000000000000000000000000000000000000009',
+    validatorUtils: '0x100000000000000000000000000000000000000a',
+    validatorWalletCreator: '0x100000000000000000000000000000000000000b',
+  },
+};
+
+const DA_PROVIDER: DaProviderSettings = {
+  fallbackToEthereum: false,
+  url: 'http://celestia-server:9876',
+  retries: 3,
+  retryErrors: 'websocket: close.*|dial tcp .*|.*i/o timeout|.*connection reset by peer|.*connection refused',
+  argLogLimit: 2048,
+  websocketMessageSizeLimit: 268435456,
+};
+
+function nodeConfig(
+  overrides: { daMode?: 'rollup' | 'anytrust' | 'celestia'; batchPoster?: NodeSigner; validator?: NodeSigner } = {}
+): CelestiaNodeConfig {
+  const daMode = overrides.daMode ?? 'celestia';
+  return prepareChainNodeConfig({
+    chainName: DEPLOYMENT.chainName,
+    chainConfig: chainConfigFromDeployment({
+      ...DEPLOYMENT,
+      rollupParameters: { ...DEPLOYMENT.rollupParameters!, dataAvailabilityCommittee: daMode === 'anytrust' },
+    }),
+    coreContracts: coreContractsFromDeployment(DEPLOYMENT),
+    batchPoster: overrides.batchPoster ?? { privateKey: BATCH_POSTER_KEY },
+    validator: overrides.validator ?? { privateKey: VALIDATOR_KEY },
+    parentChainInfo: { name: 'sepolia', chain: sepolia, isArbitrum: false, isCustom: false },
+    parentChainRpcUrl: 'https://sepolia.example',
+    parentChainBeaconRpcUrl: 'https://beacon.sepolia.example',
+    daMode,
+    daProvider: DA_PROVIDER,
+    ...(daMode === 'anytrust' && { dasServerUrl: 'http://das-server:9876' }),
+  });
+}
+
+describe('prepareChainNodeConfig', () => {
+  it('posts celestia batches through the da-provider without the parent chain fallback', () => {
+    const config = nodeConfig();
+
+    assert.deepEqual(config.node?.['da-provider'], {
+      enable: true,
+      'with-writer': true,
+      rpc: {
+        url: DA_PROVIDER.url,
+        retries: DA_PROVIDER.retries,
+        'retry-errors': DA_PROVIDER.retryErrors,
+        'arg-log-limit': DA_PROVIDER.argLogLimit,
+        'websocket-message-size-limit': DA_PROVIDER.websocketMessageSizeLimit,
+      },
+    });
+    assert.equal(config.node?.['batch-poster']?.['disable-dap-fallback-store-data-on-chain'], true);
+    assert.equal(config.node?.dangerous?.['disable-blob-reader'], true);
+    assert.notEqual(config.node?.['data-availability']?.enable, true);
+    assert.equal(nodeConfigDaMode(config), 'celestia');
+  });
+
+  it('leaves rollup and anytrust configs as the SDK builds them', () => {
+    const rollup = nodeConfig({ daMode: 'rollup' });
+    const anytrust = nodeConfig({ daMode: 'anytrust' });
+
+    assert.equal(rollup.node?.['da-provider'], undefined);
+    assert.equal(rollup.node?.dangerous?.['disable-blob-reader'], false);
+    assert.equal(nodeConfigDaMode(rollup), 'rollup');
+    assert.equal(anytrust.node?.['data-availability']?.enable, true);
+    assert.equal(nodeConfigDaMode(anytrust), 'anytrust');
+  });
+
+  it('records the chain ID only inside info-json', () => {
+    const config = nodeConfig();
+
+    assert.equal(Object.hasOwn(config.chain ?? {}, 'id'), false);
+    assert.equal(nodeConfigChainId(config), DEPLOYMENT.chainId);
+  });
+
+  it('replaces the wallet key of a role with an external signer', () => {
+    const config = nodeConfig({
+      batchPoster: { externalSigner: { url: 'http://signer:8550', address: SIGNER_ADDRESS } },
+    });
+
+    assert.equal(config.node?.['batch-poster']?.['parent-chain-wallet'], undefined);
+    assert.deepEqual(config.node?.['batch-poster']?.['data-poster']?.['external-signer'], {
+      url: 'http://signer:8550',
+      address: SIGNER_ADDRESS,
+    });
+    assert.equal(config.node?.staker?.['parent-chain-wallet']?.['private-key'], VALIDATOR_KEY.slice(2));
+    assert.ok(!JSON.stringify(config).includes(BATCH_POSTER_KEY.slice(2)));
+  });
+});
+
+describe('applyDaNodeConfig', () => {
+  it('keeps the blob reader when batches may fall back to the parent chain', () => {
+    const config = applyDaNodeConfig(nodeConfig({ daMode: 'rollup' }), {
+      daMode: 'celestia',
+      daProvider: { ...DA_PROVIDER, fallbackToEthereum: true },
+    });
+
+    assert.equal(config.node?.['batch-poster']?.['disable-dap-fallback-store-data-on-chain'], false);
+    assert.equal(config.node?.dangerous?.['disable-blob-reader'], false);
+  });
+
+  it('switches the AnyTrust DAS client off in celestia mode', () => {
+    const config = applyDaNodeConfig(nodeConfig({ daMode: 'anytrust' }), {
+      daMode: 'celestia',
+      daProvider: DA_PROVIDER,
+    });
+
+    assert.equal(config.node?.['data-availability']?.enable, false);
+    assert.equal(nodeConfigDaMode(config), 'celestia');
+  });
+
+  it('points the node at a new parent chain connection', () => {
+    const config = applyDaNodeConfig(nodeConfig(), {
+      daMode: 'celestia',
+      daProvider: DA_PROVIDER,
+      parentChain: { rpcUrl: 'https://rpc.example', beaconRpcUrl: 'https://beacon.example' },
+    });
+
+    assert.equal(config['parent-chain']?.connection?.url, 'https://rpc.example');
+    assert.equal(config['parent-chain']?.['blob-client']?.['beacon-url'], 'https://beacon.example');
+  });
+});
+
+describe('withExternalSigner', () => {
+  it('keeps the rest of the data poster section and sets the method when given', () => {
+    const config = withExternalSigner(
+      { node: { staker: { enable: true, 'data-poster': { 'max-mempool-transactions': 1 } } } },
+      'staker',
+      { url: 'http://signer:8550', address: SIGNER_ADDRESS, method: 'eth_signTransaction' }
+    );
+
+    assert.deepEqual(config.node?.staker, {
+      enable: true,
+      'data-poster': {
+        'max-mempool-transactions': 1,
+        'external-signer': { url: 'http://signer:8550', address: SIGNER_ADDRESS, method: 'eth_signTransaction' },
+      },
+    });
+  });
+});
+
+describe('nodeConfigChainId', () => {
+  it('rejects configs without a readable chain-id', () => {
+    assert.throws(() => nodeConfigChainId({ chain: { name: 'my-chain' } }), NodeConfigError);
+    assert.throws(() => nodeConfigChainId({ chain: { 'info-json': '[{}]' } }), /has no chain-id/);
+  });
+});
+
+describe('chainConfigFromDeployment', () => {
+  it('rejects deployment files without rollup parameters', () => {
+    assert.throws(
+      () => chainConfigFromDeployment({ ...DEPLOYMENT, rollupParameters: undefined }),
+      /doesn't record its rollup parameters/
+    );
+  });
+});
+
+describe('coreContractsFromDeployment', () => {
+  it('names the contracts a deployment file is missing', () => {
+    assert.throws(
+      () => coreContractsFromDeployment({ ...DEPLOYMENT, contracts: { rollup: DEPLOYMENT.contracts.rollup } }),
+      /missing contract addresses: inbox, sequencerInbox, bridge/
+    );
+  });
+});
+
+describe('changedConfigPaths', () => {
+  it('lists the dotted paths a rebuild changes', () => {
+    const before = nodeConfig({ daMode: 'rollup' });
+    const after = nodeConfig();
+
+    assert.deepEqual(changedConfigPaths(before, before), []);
+    assert.deepEqual(changedConfigPaths(before, after).sort(), [
+      'node.batch-poster.disable-dap-fallback-store-data-on-chain',
+      'node.da-provider',
+      'node.dangerous.disable-blob-reader',
+    ]);
+  });
+});
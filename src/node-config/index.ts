@@ -0,0 +1,345 @@
+import {
+  prepareChainConfig,
+  prepareNodeConfig,
+  type ChainConfig,
+  type CoreContracts,
+  type NodeConfig,
+  type ParentChainId,
+} from '@arbitrum/orbit-sdk';
+import { isAddress, zeroAddress, type Address } from 'viem';
+import type { ParentChainInfo } from '../chains/index.js';
+import type { DaMode, DeploymentManifest } from '../manifest/index.js';
+import {
+  SIGNER_ENV,
+  signerAddress,
+  signerPrivateKey,
+  signerSourceFromEnv,
+  SignerError,
+  type SignerSource,
+} from '../signer/index.js';
+import type { DeploymentInfo } from '../types/index.js';
+
+export type DaProviderSettings = DeploymentManifest['daProvider'];
+
+// The section Celestia's Nitro fork reads to reach celestia-server
+export interface DaProviderNodeConfig {
+  enable: boolean;
+  'with-writer': boolean;
+  rpc: {
+    url: string;
+    retries: number;
+    'retry-errors': string;
+    'arg-log-limit': number;
+    'websocket-message-size-limit': number;
+  };
+}
+
+type NodeSection = NonNullable<NodeConfig['node']>;
+
+// Nitro's switch for posting batches to the parent chain when the DA provider fails
+const DA_FALLBACK_DISABLE_KEY = 'disable-dap-fallback-store-data-on-chain';
+
+// The SDK's node config plus the settings of Celestia's fork it doesn't know about
+export type CelestiaNodeConfig = NodeConfig & {
+  node: NodeSection & {
+    'da-provider'?: DaProviderNodeConfig;
+    'batch-poster'?: NodeSection['batch-poster'] & { [DA_FALLBACK_DISABLE_KEY]?: boolean };
+  };
+};
+
+// Nitro's data poster signs through this instead of a wallet key
+export interface ExternalSignerSettings {
+  url: string;
+  address: Address;
+  // JSON-RPC method Nitro calls (Nitro's default: eth_signTransaction)
+  method?: string;
+}
+
+// How the batch poster or validator signs: with a key in the config or an external signer
+export type NodeSigner = { privateKey: string } | { externalSigner: ExternalSignerSettings };
+
+/**
+ * How the node signs for a role. Keys from private keys and keystores go into
+ * the config; remote signers become Nitro external signers, reached at
+ * <prefix>_REMOTE_SIGNER_NODE_URL when the node sees the signer under another
+ * URL than the scripts do (e.g. a service name inside Docker).
+ */
+export async function nodeSignerFromSource(
+  source: SignerSource,
+  role: 'batch-poster' | 'validator',
+  env: NodeJS.ProcessEnv = process.env
+): Promise<NodeSigner> {
+  if (source.type === 'remote') {
+    const url = env[`${SIGNER_ENV[role].prefix}_REMOTE_SIGNER_NODE_URL`] || source.url;
+    return { externalSigner: { url, address: await signerAddress(source) } };
+  }
+  return { privateKey: (await signerPrivateKey(source))! };
+}
+
+// The batch poster's and validator's node signers; a role without its own signer uses the deployer's
+export async function nodeSignerFromEnv(
+  role: 'batch-poster' | 'validator',
+  env: NodeJS.ProcessEnv = process.env
+): Promise<NodeSigner> {
+  const source = signerSourceFromEnv(role, env) ?? signerSourceFromEnv('deployer', env);
+  if (!source) {
+    const { privateKey, prefix } = SIGNER_ENV[role];
+    throw new SignerError(`No signer for the ${role}: set ${prefix}_KEYSTORE, ${prefix}_REMOTE_SIGNER_URL or ${privateKey}`);
+  }
+  return nodeSignerFromSource(source, role, env);
+}
+
+export interface ParentChainConnection {
+  rpcUrl: string;
+  // Beacon chain RPC for reading blobs; kept as is when omitted
+  beaconRpcUrl?: string;
+}
+
+export class NodeConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NodeConfigError';
+  }
+}
+
+function nodeSection(config: NodeConfig): CelestiaNodeConfig['node'] {
+  return { ...config.node };
+}
+
+export function withDaProvider(config: NodeConfig, daProvider: DaProviderSettings): CelestiaNodeConfig {
+  return {
+    ...config,
+    node: {
+      ...nodeSection(config),
+      'da-provider': {
+        enable: true,
+        'with-writer': true,
+        rpc: {
+          url: daProvider.url,
+          retries: daProvider.retries,
+          'retry-errors': daProvider.retryErrors,
+          'arg-log-limit': daProvider.argLogLimit,
+          'websocket-message-size-limit': daProvider.websocketMessageSizeLimit,
+        },
+      },
+    },
+  };
+}
+
+// The SDK only adds data-availability for AnyTrust chains; Nitro must not start the DAS client next to Celestia
+export function withDataAvailabilityDisabled<T extends NodeConfig>(config: T): T {
+  const node = nodeSection(config);
+  if (!node['data-availability']) {
+    return config;
+  }
+  return { ...config, node: { ...node, 'data-availability': { ...node['data-availability'], enable: false } } };
+}
+
+// Batches live on Celestia, so Nitro has no blobs to read from the parent chain
+export function withBlobReaderDisabled<T extends NodeConfig>(config: T): T {
+  const node = nodeSection(config);
+  return { ...config, node: { ...node, dangerous: { ...node.dangerous, 'disable-blob-reader': true } } };
+}
+
+// With the fallback, batches the DA provider couldn't take are posted to the parent chain
+export function withEthereumFallback<T extends NodeConfig>(config: T, enabled: boolean): T {
+  const node = nodeSection(config);
+  return {
+    ...config,
+    node: { ...node, 'batch-poster': { ...node['batch-poster'], [DA_FALLBACK_DISABLE_KEY]: !enabled } },
+  };
+}
+
+// Drops the role's wallet key and points its data poster at the external signer
+export function withExternalSigner<T extends NodeConfig>(
+  config: T,
+  section: 'batch-poster' | 'staker',
+  signer: ExternalSignerSettings
+): T {
+  const node = nodeSection(config);
+  const { 'parent-chain-wallet': _wallet, ...roleConfig } = node[section] ?? {};
+  return {
+    ...config,
+    node: {
+      ...node,
+      [section]: {
+        ...roleConfig,
+        'data-poster': {
+          ...roleConfig['data-poster'],
+          'external-signer': {
+            url: signer.url,
+            address: signer.address,
+            ...(signer.method && { method: signer.method }),
+          },
+        },
+      },
+    },
+  };
+}
+
+export function withParentChain<T extends NodeConfig>(config: T, connection: ParentChainConnection): T {
+  const parentChain = config['parent-chain'] ?? {};
+  return {
+    ...config,
+    'parent-chain': {
+      ...parentChain,
+      connection: { ...parentChain.connection, url: connection.rpcUrl },
+      ...(connection.beaconRpcUrl && {
+        'blob-client': { ...parentChain['blob-client'], 'beacon-url': connection.beaconRpcUrl },
+      }),
+    },
+  };
+}
+
+export interface DaNodeConfigOptions {
+  daMode: DaMode;
+  daProvider: DaProviderSettings;
+  parentChain?: ParentChainConnection;
+}
+
+/**
+ * Adapts the config prepareNodeConfig returns to the DA mode. In celestia
+ * mode batches go through the da-provider and the AnyTrust DAS client is
+ * switched off; the blob reader stays off unless batches may fall back to
+ * the parent chain. Rollup and anytrust configs are used as the SDK builds them.
+ */
+export function applyDaNodeConfig(config: NodeConfig, options: DaNodeConfigOptions): CelestiaNodeConfig {
+  let daConfig = config as CelestiaNodeConfig;
+  if (options.daMode === 'celestia') {
+    const { fallbackToEthereum } = options.daProvider;
+    daConfig = withEthereumFallback(
+      withDataAvailabilityDisabled(withDaProvider(config, options.daProvider)),
+      fallbackToEthereum
+    );
+    if (!fallbackToEthereum) {
+      daConfig = withBlobReaderDisabled(daConfig);
+    }
+  }
+  return options.parentChain ? withParentChain(daConfig, options.parentChain) : daConfig;
+}
+
+// The DA mode a node config was built for, judged by its sections
+export function nodeConfigDaMode(config: Record<string, any>): DaMode {
+  if (config.node?.['da-provider']?.enable) {
+    return 'celestia';
+  }
+  return config.node?.['data-availability']?.enable ? 'anytrust' : 'rollup';
+}
+
+// SDK node configs carry the chain ID only inside chain['info-json']
+export function nodeConfigChainId(config: Record<string, any>): number {
+  let info: unknown;
+  try {
+    info = JSON.parse(config.chain?.['info-json'] ?? '');
+  } catch {
+    throw new NodeConfigError("The node config has no valid chain['info-json']");
+  }
+  const chainId = Array.isArray(info) ? info[0]?.['chain-id'] : undefined;
+  if (!Number.isSafeInteger(chainId)) {
+    throw new NodeConfigError("The node config's chain['info-json'] has no chain-id");
+  }
+  return chainId;
+}
+
+export interface PrepareChainNodeConfigParams {
+  chainName: string;
+  chainConfig: ChainConfig;
+  coreContracts: CoreContracts;
+  batchPoster: NodeSigner;
+  validator: NodeSigner;
+  parentChainInfo: ParentChainInfo;
+  parentChainRpcUrl: string;
+  parentChainBeaconRpcUrl?: string;
+  daMode: DaMode;
+  daProvider: DaProviderSettings;
+  // AnyTrust only
+  dasServerUrl?: string;
+}
+
+export function prepareChainNodeConfig(params: PrepareChainNodeConfigParams): CelestiaNodeConfig {
+  // The SDK insists on keys; roles with an external signer get theirs removed again below
+  const privateKey = (signer: NodeSigner) => ('privateKey' in signer ? signer.privateKey : '');
+
+  // Custom parent chains have to be registered with the SDK before this runs
+  let config: NodeConfig = prepareNodeConfig({
+    chainName: params.chainName,
+    chainConfig: params.chainConfig,
+    coreContracts: params.coreContracts,
+    batchPosterPrivateKey: privateKey(params.batchPoster),
+    validatorPrivateKey: privateKey(params.validator),
+    parentChainId: params.parentChainInfo.chain.id as ParentChainId,
+    parentChainIsArbitrum: params.parentChainInfo.isArbitrum,
+    parentChainRpcUrl: params.parentChainRpcUrl,
+    parentChainBeaconRpcUrl: params.parentChainBeaconRpcUrl,
+    dasServerUrl: params.dasServerUrl,
+  });
+  if ('externalSigner' in params.batchPoster) {
+    config = withExternalSigner(config, 'batch-poster', params.batchPoster.externalSigner);
+  }
+  if ('externalSigner' in params.validator) {
+    config = withExternalSigner(config, 'staker', params.validator.externalSigner);
+  }
+  return applyDaNodeConfig(config, { daMode: params.daMode, daProvider: params.daProvider });
+}
+
+/**
+ * Rebuilds the chain config the rollup was created with. Only deployment
+ * files that record their rollup parameters carry enough to do this; the
+ * result must match the genesis exactly, or the node won't start.
+ */
+export function chainConfigFromDeployment(info: DeploymentInfo): ChainConfig {
+  const parameters = info.rollupParameters;
+  if (!parameters) {
+    throw new NodeConfigError(
+      `Deployment of chain ${info.chainId} doesn't record its rollup parameters, so its chain config can't be rebuilt`
+    );
+  }
+  return prepareChainConfig({
+    chainId: info.chainId,
+    arbitrum: {
+      InitialChainOwner: parameters.owner as Address,
+      DataAvailabilityCommittee: parameters.dataAvailabilityCommittee,
+      InitialArbOSVersion: parameters.initialArbOSVersion,
+    },
+  });
+}
+
+const REQUIRED_CONTRACTS = ['rollup', 'inbox', 'sequencerInbox', 'bridge'] as const;
+
+export function coreContractsFromDeployment(info: DeploymentInfo): CoreContracts {
+  const { contracts } = info;
+  const missing = REQUIRED_CONTRACTS.filter((name) => !contracts[name] || !isAddress(contracts[name]!));
+  if (missing.length > 0) {
+    throw new NodeConfigError(
+      `Deployment of chain ${info.chainId} is missing contract addresses: ${missing.join(', ')}. Run npm run parse-deployment first`
+    );
+  }
+  const address = (value: string | undefined) => (value ?? zeroAddress) as Address;
+  return {
+    rollup: address(contracts.rollup),
+    nativeToken: address(contracts.nativeToken ?? info.nativeToken),
+    inbox: address(contracts.inbox),
+    outbox: address(contracts.outbox),
+    rollupEventInbox: address(contracts.rollupEventInbox),
+    challengeManager: address(contracts.challengeManager),
+    adminProxy: address(contracts.adminProxy),
+    sequencerInbox: address(contracts.sequencerInbox),
+    bridge: address(contracts.bridge),
+    upgradeExecutor: address(contracts.upgradeExecutor),
+    validatorUtils: address(contracts.validatorUtils),
+    validatorWalletCreator: address(contracts.validatorWalletCreator),
+    deployedAtBlockNumber: contracts.deployedAtBlockNumber ?? info.blockNumber,
+  };
+}
+
+// Dotted paths whose values differ between two configs, for showing what a rebuild changes
+export function changedConfigPaths(before: unknown, after: unknown, prefix = ''): string[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(before) || !isObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [prefix || '(root)'];
+  }
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.flatMap((key) => changedConfigPaths(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+}
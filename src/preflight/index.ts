@@ -0,0 +1,287 @@
+import { resolve } from 'path';
+import { rollupCreatorABI } from '@arbitrum/orbit-sdk/contracts/RollupCreator/index.js';
+import { generateChainId, getRollupCreatorAddress } from '@arbitrum/orbit-sdk/utils';
+import { getAbiItem, getAddress, getFunctionSelector, zeroAddress, type Address, type PublicClient } from 'viem';
+import { getKnownParentChains, type ParentChainInfo } from '../chains/index.js';
+import {
+  consensusReleaseByWasmModuleRoot,
+  CONSENSUS_RELEASES_URL,
+  CONSENSUS_TABLE_VERSION,
+  upstreamConsensusVersion,
+} from '../consensus/index.js';
+import { DEPLOYMENTS_DIR, listDeployments } from '../deployments/index.js';
+import { isCustomFeeToken } from '../fee-token/index.js';
+import type { DeploymentManifest, ResolvedManifest } from '../manifest/index.js';
+import type { CheckResult } from '../report/index.js';
+import { checkRoleAddresses, SignerError, type OperatorRole } from '../signer/index.js';
+
+// Chain IDs handed out by tooling defaults (nitro-testnode, Hardhat, Anvil, the SDK examples)
+export const COLLISION_PRONE_CHAIN_IDS = [412346, 333333, 1337, 31337];
+// Below this, chain IDs are mostly taken by public networks
+export const MIN_RECOMMENDED_CHAIN_ID = 100_000;
+
+// Batches have to fit in a parent chain transaction (geth caps them at 128 KiB).
+// These are the SDK's defaults, which leave room for the call's own overhead.
+export const MAX_DATA_SIZE_LIMIT = { l1: 117_964n, arbitrum: 104_857n };
+// Smaller batches work, but each one pays the fixed posting overhead
+export const MIN_RECOMMENDED_DATA_SIZE = 16_384n;
+
+export class PreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreflightError';
+  }
+}
+
+export interface PreflightParams {
+  resolved: ResolvedManifest;
+  publicClient: PublicClient;
+  parentChainInfo: ParentChainInfo;
+  // Addresses the roles sign as (see roleSignerAddresses); the batch poster falls back to the deployer
+  signers: Partial<Record<OperatorRole, Address>>;
+  deploymentsDir?: string;
+  // Deployment file of the journaled deployment being resumed, which doesn't count as already deployed
+  resumedDeploymentFile?: string;
+}
+
+// Only compares against local deployment files and the built-in chains; public registries aren't queried
+function localChainIdCheck(
+  manifest: DeploymentManifest,
+  parentChainInfo: ParentChainInfo,
+  deploymentsDir: string,
+  resumedDeploymentFile: string | undefined
+): CheckResult {
+  const { chainId } = manifest;
+  const check = (status: CheckResult['status'], detail: string): CheckResult => ({
+    section: 'Chain',
+    name: 'Chain ID (local)',
+    status,
+    detail,
+  });
+
+  const resumed = resumedDeploymentFile && resolve(resumedDeploymentFile);
+  const deployed = listDeployments(deploymentsDir).find(
+    ({ file, info }) => info.chainId === chainId && resolve(file) !== resumed
+  );
+  if (deployed) {
+    return check('fail', `${chainId} is already deployed (${deployed.file})`);
+  }
+  if (chainId === parentChainInfo.chain.id) {
+    return check('fail', `${chainId} is the parent chain's own chain ID`);
+  }
+  const suggestion = `pick a random one, e.g. ${generateChainId()}`;
+  // Checked before the known chains, which include the nitro-testnode defaults
+  if (COLLISION_PRONE_CHAIN_IDS.includes(chainId)) {
+    return check('warn', `${chainId} is a common default and likely to collide; ${suggestion}`);
+  }
+  const known = getKnownParentChains().find(({ chain }) => chain.id === chainId);
+  if (known) {
+    return check('fail', `${chainId} is the chain ID of ${known.chain.name}`);
+  }
+  if (chainId < MIN_RECOMMENDED_CHAIN_ID) {
+    return check('warn', `${chainId} is low and likely taken by another network; ${suggestion}`);
+  }
+  return check('pass', `${chainId} (not in deployments/ or the known chains)`);
+}
+
+// Addresses given in mixed case must carry a valid EIP-55 checksum; a wrong one usually means a typo
+function addressCheck(section: string, name: string, raw: unknown): CheckResult {
+  const text = String(raw).trim();
+  const address = getAddress(text);
+  if (address === zeroAddress) {
+    return { section, name, status: 'fail', detail: 'is the zero address' };
+  }
+  if (text === address) {
+    return { section, name, status: 'pass', detail: address };
+  }
+  const digits = text.slice(2);
+  if (digits === digits.toLowerCase() || digits === digits.toUpperCase()) {
+    return { section, name, status: 'warn', detail: `${text} is not checksummed (${address})` };
+  }
+  return { section, name, status: 'fail', detail: `${text} has an invalid checksum, so it probably has a typo` };
+}
+
+function roleChecks({ resolved, signers }: PreflightParams): CheckResult[] {
+  const section = 'Roles';
+  const checks: CheckResult[] = [];
+
+  const validators = resolved.raw.validators;
+  const entries = typeof validators === 'string' ? validators.split(',') : ((validators as unknown[] | undefined) ?? []);
+  entries.forEach((entry, index) =>
+    checks.push(addressCheck(section, entries.length > 1 ? `Validator ${index + 1}` : 'Validator', entry))
+  );
+  if (resolved.raw.batchPoster !== undefined) {
+    checks.push(addressCheck(section, 'Batch poster', resolved.raw.batchPoster));
+  }
+
+  const { deployer, validator } = signers;
+  const batchPoster = signers['batch-poster'] ?? deployer;
+  if (!deployer) {
+    checks.push({ section, name: 'Deployer signer', status: 'fail', detail: 'not configured' });
+  }
+  if (!validator) {
+    checks.push({ section, name: 'Validator signer', status: 'fail', detail: 'not configured' });
+  } else if (validator === deployer) {
+    checks.push({ section, name: 'Validator signer', status: 'fail', detail: `${validator} is the deployer` });
+  }
+  if (deployer && !signers['batch-poster']) {
+    checks.push({
+      section,
+      name: 'Batch poster signer',
+      status: 'warn',
+      detail: `uses the deployer's key; run npm run init-keys for a separate one`,
+    });
+  }
+  if (batchPoster && validator) {
+    try {
+      checkRoleAddresses(
+        { batchPoster: resolved.manifest.batchPoster, validators: resolved.manifest.validators },
+        { batchPoster, validator }
+      );
+      checks.push({
+        section,
+        name: 'Signer addresses',
+        status: 'pass',
+        detail: `batch poster ${batchPoster}, validator ${validator}`,
+      });
+    } catch (error) {
+      if (!(error instanceof SignerError)) {
+        throw error;
+      }
+      checks.push({ section, name: 'Signer addresses', status: 'fail', detail: error.message });
+    }
+  }
+  return checks;
+}
+
+// True when the code dispatches the selector, i.e. contains PUSH4 <selector>
+function hasSelector(code: string, selector: string): boolean {
+  return code.toLowerCase().includes(`63${selector.slice(2).toLowerCase()}`);
+}
+
+async function contractChecks({ resolved, publicClient, parentChainInfo }: PreflightParams): Promise<CheckResult[]> {
+  const section = 'Contracts';
+  const { manifest } = resolved;
+  const checks: CheckResult[] = [];
+
+  let rollupCreator = manifest.rollupCreator;
+  if (!rollupCreator) {
+    try {
+      rollupCreator = getRollupCreatorAddress(publicClient);
+    } catch {
+      checks.push({
+        section,
+        name: 'RollupCreator',
+        status: 'fail',
+        detail: `the SDK has none for ${parentChainInfo.chain.name}; set ROLLUP_CREATOR_ADDRESS`,
+      });
+    }
+  }
+  if (rollupCreator) {
+    const code = await publicClient.getBytecode({ address: rollupCreator });
+    // The version the installed SDK encodes createRollup for
+    const selector = getFunctionSelector(getAbiItem({ abi: rollupCreatorABI, name: 'createRollup' }));
+    if (!code || code === '0x') {
+      checks.push({ section, name: 'RollupCreator', status: 'fail', detail: `${rollupCreator} has no code` });
+    } else if (!hasSelector(code, selector)) {
+      checks.push({
+        section,
+        name: 'RollupCreator',
+        status: 'fail',
+        detail: `${rollupCreator} has no createRollup matching the SDK's (${selector}); it is another RollupCreator version`,
+      });
+    } else {
+      checks.push({
+        section,
+        name: 'RollupCreator',
+        status: 'pass',
+        detail: `${rollupCreator}${manifest.rollupCreator ? '' : ' (SDK default)'}`,
+      });
+    }
+  }
+
+  if (isCustomFeeToken(manifest.nativeToken)) {
+    const code = await publicClient.getBytecode({ address: manifest.nativeToken });
+    checks.push({
+      section,
+      name: 'Native token',
+      status: code && code !== '0x' ? 'pass' : 'fail',
+      detail: code && code !== '0x' ? manifest.nativeToken : `${manifest.nativeToken} has no code`,
+    });
+  }
+  return checks;
+}
+
+// The manifest already guarantees 32 bytes of hex, and a root that matches consensusVersion
+function wasmModuleRootCheck({ wasmModuleRoot, daMode }: DeploymentManifest): CheckResult {
+  const check = (status: CheckResult['status'], detail: string): CheckResult => ({
+    section: 'Parameters',
+    name: 'Wasm module root',
+    status,
+    detail,
+  });
+
+  if (/^0x0+$/.test(wasmModuleRoot)) {
+    return check('fail', 'is all zeros');
+  }
+  const release = consensusReleaseByWasmModuleRoot(wasmModuleRoot);
+  if (release) {
+    return check('pass', `${wasmModuleRoot} (consensus ${release.version})`);
+  }
+  const upstream = upstreamConsensusVersion(wasmModuleRoot);
+  if (upstream !== undefined) {
+    // Arbitrum's replay binaries can't read batches from Celestia
+    return daMode === 'celestia'
+      ? check('fail', `${wasmModuleRoot} is Arbitrum's consensus-v${upstream}; validators of a Celestia chain can't prove it`)
+      : check('pass', `${wasmModuleRoot} (Arbitrum consensus-v${upstream})`);
+  }
+  return check(
+    'warn',
+    `${wasmModuleRoot} is not in the consensus table (version ${CONSENSUS_TABLE_VERSION}); ` +
+      `check it against ${CONSENSUS_RELEASES_URL} or set CONSENSUS_VERSION`
+  );
+}
+
+function parameterChecks({ resolved, parentChainInfo }: PreflightParams): CheckResult[] {
+  const section = 'Parameters';
+  const { maxDataSize } = resolved.manifest;
+  const checks: CheckResult[] = [wasmModuleRootCheck(resolved.manifest)];
+
+  const limit = parentChainInfo.isArbitrum ? MAX_DATA_SIZE_LIMIT.arbitrum : MAX_DATA_SIZE_LIMIT.l1;
+  if (maxDataSize > limit) {
+    checks.push({
+      section,
+      name: 'Max data size',
+      status: 'fail',
+      detail: `${maxDataSize} bytes exceeds ${limit}, the most a batch on ${parentChainInfo.chain.name} can carry`,
+    });
+  } else if (maxDataSize < MIN_RECOMMENDED_DATA_SIZE) {
+    checks.push({
+      section,
+      name: 'Max data size',
+      status: 'warn',
+      detail: `${maxDataSize} bytes; batches this small make posting expensive`,
+    });
+  } else {
+    checks.push({ section, name: 'Max data size', status: 'pass', detail: `${maxDataSize} bytes (limit ${limit})` });
+  }
+  return checks;
+}
+
+/**
+ * Checks a deployment before anything is sent: that the chain ID is free,
+ * the role addresses are well-formed and match their signers, the contracts
+ * it relies on exist on the parent chain in the version the SDK expects, and
+ * the parameters are within bounds.
+ */
+export async function runPreflightChecks(params: PreflightParams): Promise<CheckResult[]> {
+  const { resolved, parentChainInfo, deploymentsDir = DEPLOYMENTS_DIR, resumedDeploymentFile } = params;
+  const { chain } = parentChainInfo;
+  return [
+    { section: 'Chain', name: 'Parent chain', status: 'pass', detail: `${chain.name} (${chain.id})` },
+    localChainIdCheck(resolved.manifest, parentChainInfo, deploymentsDir, resumedDeploymentFile),
+    ...roleChecks(params),
+    ...(await contractChecks(params)),
+    ...parameterChecks(params),
+  ];
+}
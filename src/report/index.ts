@@ -0,0 +1,51 @@
+// Shared pass/fail reporting for the diagnostic commands
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'info';
+
+export interface CheckResult {
+  section: string;
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: '✅',
+  warn: '⚠️ ',
+  fail: '❌',
+  info: 'ℹ️ ',
+};
+
+export function hasFailures(checks: CheckResult[]): boolean {
+  return checks.some(check => check.status === 'fail');
+}
+
+export function summarizeChecks(checks: CheckResult[]): Record<CheckStatus, number> {
+  const summary: Record<CheckStatus, number> = { pass: 0, warn: 0, fail: 0, info: 0 };
+  for (const check of checks) {
+    summary[check.status]++;
+  }
+  return summary;
+}
+
+export function printReport(title: string, checks: CheckResult[]): void {
+  const nameWidth = Math.max(...checks.map(check => check.name.length), 10);
+
+  console.log('═══════════════════════════════════════════════');
+  console.log(title);
+  console.log('═══════════════════════════════════════════════');
+
+  let section: string | undefined;
+  for (const check of checks) {
+    if (check.section !== section) {
+      section = check.section;
+      console.log(`\n${section}:`);
+    }
+    console.log(`  ${STATUS_ICONS[check.status]} ${check.name.padEnd(nameWidth)}  ${check.detail}`);
+  }
+
+  const summary = summarizeChecks(checks);
+  console.log('\n═══════════════════════════════════════════════');
+  console.log(`  ${summary.pass} passed, ${summary.warn} warnings, ${summary.fail} failed`);
+  console.log('═══════════════════════════════════════════════\n');
+}
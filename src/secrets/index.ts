@@ -0,0 +1,83 @@
+import { chmodSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+// Nitro loads KEY=value pairs starting with this prefix when started with --conf.env-prefix
+export const NITRO_ENV_PREFIX = 'NITRO';
+
+// Config keys whose values must never end up in a mounted or committed file
+const SECRET_CONFIG_KEYS = ['private-key', 'password'];
+
+export interface StrippedNodeConfig {
+  config: Record<string, unknown>;
+  // Environment variables that restore the stripped values, by Nitro env name
+  env: Record<string, string>;
+}
+
+/**
+ * Maps a config path to the variable Nitro reads it from: '.' becomes '_' and
+ * '-' becomes '__', so node.batch-poster.parent-chain-wallet.private-key is
+ * NITRO_NODE_BATCH__POSTER_PARENT__CHAIN__WALLET_PRIVATE__KEY.
+ */
+export function nitroEnvName(path: string[], prefix: string = NITRO_ENV_PREFIX): string {
+  return [prefix, ...path.map((segment) => segment.replace(/-/g, '__'))].join('_').toUpperCase();
+}
+
+/**
+ * Returns a copy of a node config without private keys and other secrets,
+ * together with the environment that puts them back at startup.
+ */
+export function stripNodeConfigSecrets(config: Record<string, unknown>, prefix?: string): StrippedNodeConfig {
+  const env: Record<string, string> = {};
+
+  const strip = (value: unknown, path: string[]): unknown => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+    const copy: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (SECRET_CONFIG_KEYS.includes(key) && typeof child === 'string') {
+        if (child) {
+          env[nitroEnvName([...path, key], prefix)] = child;
+        }
+        continue;
+      }
+      copy[key] = strip(child, [...path, key]);
+    }
+    return copy;
+  };
+
+  return { config: strip(config, []) as Record<string, unknown>, env };
+}
+
+// Single quotes keep compose from interpolating $ in the value
+function formatEnvValue(value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error('Secret values cannot contain line breaks');
+  }
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\$/g, '\\$')}"`;
+}
+
+export function formatEnvFile(env: Record<string, string>, header?: string): string {
+  const lines = header ? header.split('\n').map((line) => `# ${line}`.trimEnd()) : [];
+  for (const [key, value] of Object.entries(env)) {
+    lines.push(`${key}=${formatEnvValue(value)}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes a file readable only by the current user (0600), creating its
+ * directory as 0700. The mode is re-applied when the file already exists,
+ * since writeFileSync only uses it on creation.
+ */
+export function writeSecretFile(path: string, content: string): void {
+  const directory = dirname(path);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true, mode: 0o700 });
+  }
+  writeFileSync(path, content, { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
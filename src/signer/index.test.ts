@@ -0,0 +1,224 @@
+import assert from 'assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { hexToBigInt, hexToNumber, parseGwei, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  decryptKeystore,
+  encryptKeystore,
+  loadSigner,
+  remoteSignerAccount,
+  SignerError,
+  signerAddress,
+  signerSourceFromEnv,
+} from './index.js';
+
+// Anvil's first development key
+const PRIVATE_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const account = privateKeyToAccount(PRIVATE_KEY);
+
+interface RpcRequest {
+  method: string;
+  params: any[];
+}
+
+// Remote signer stand-in that signs with the development key; `answer` can
+// override a method's result or return a JSON-RPC error
+let answer: (request: RpcRequest) => { result?: unknown; error?: { code: number; message: string } } | undefined;
+let requests: RpcRequest[];
+let server: Server;
+let url: string;
+
+const TRANSACTION_TYPES: Record<string, 'legacy' | 'eip2930' | 'eip1559'> = {
+  '0x0': 'legacy',
+  '0x1': 'eip2930',
+  '0x2': 'eip1559',
+};
+
+async function sign({ method, params }: RpcRequest): Promise<unknown> {
+  switch (method) {
+    case 'eth_accounts':
+      return [account.address.toLowerCase()];
+    case 'eth_signTransaction': {
+      const [tx] = params;
+      const quantity = (value: Hex | undefined) => (value === undefined ? undefined : hexToBigInt(value));
+      return account.signTransaction({
+        to: tx.to,
+        data: tx.data,
+        value: quantity(tx.value),
+        gas: quantity(tx.gas),
+        nonce: tx.nonce && hexToNumber(tx.nonce),
+        chainId: hexToNumber(tx.chainId),
+        maxFeePerGas: quantity(tx.maxFeePerGas),
+        maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+        type: TRANSACTION_TYPES[tx.type],
+      } as any);
+    }
+    case 'eth_sign':
+      return account.signMessage({ message: { raw: params[1] } });
+    default:
+      throw new Error(`unexpected method ${method}`);
+  }
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({ method, params });
+      const response = answer({ method, params }) ?? { result: await sign({ method, params }) };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, ...response }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  answer = () => undefined;
+});
+
+const TRANSACTION = {
+  to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  value: 1n,
+  gas: 21000n,
+  nonce: 7,
+  chainId: 11155111,
+  maxFeePerGas: parseGwei('20'),
+  maxPriorityFeePerGas: parseGwei('1'),
+  type: 'eip1559',
+} as const;
+
+describe('remoteSignerAccount', () => {
+  it("uses the signer's first account when no address is given", async () => {
+    const remote = await remoteSignerAccount(url);
+
+    assert.equal(remote.address, account.address);
+  });
+
+  it('gets transactions signed by the remote signer', async () => {
+    const remote = await remoteSignerAccount(url, account.address);
+
+    assert.equal(await remote.signTransaction(TRANSACTION), await account.signTransaction(TRANSACTION));
+    assert.deepEqual(requests.at(-1), {
+      method: 'eth_signTransaction',
+      params: [
+        {
+          from: account.address,
+          to: TRANSACTION.to,
+          value: '0x1',
+          gas: '0x5208',
+          nonce: '0x7',
+          chainId: '0xaa36a7',
+          maxFeePerGas: '0x4a817c800',
+          maxPriorityFeePerGas: '0x3b9aca00',
+          type: '0x2',
+        },
+      ],
+    });
+  });
+
+  it("accepts Clef's { raw, tx } answer", async () => {
+    const raw = await account.signTransaction(TRANSACTION);
+    answer = ({ method }) => (method === 'eth_signTransaction' ? { result: { raw, tx: {} } } : undefined);
+
+    const remote = await remoteSignerAccount(url);
+
+    assert.equal(await remote.signTransaction(TRANSACTION), raw);
+  });
+
+  it('sends messages to eth_sign as hex data', async () => {
+    const remote = await remoteSignerAccount(url);
+
+    assert.equal(await remote.signMessage({ message: 'hello' }), await account.signMessage({ message: 'hello' }));
+    assert.deepEqual(requests.at(-1)?.params, [account.address, '0x68656c6c6f']);
+  });
+
+  it('rejects an address the signer does not hold', async () => {
+    await assert.rejects(
+      remoteSignerAccount(url, '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'),
+      /does not hold 0x70997970C51812dc3A010C7d01b50e0d17dc79C8/
+    );
+  });
+
+  it('rejects a signer without accounts', async () => {
+    answer = () => ({ result: [] });
+
+    await assert.rejects(remoteSignerAccount(url), /has no accounts/);
+  });
+
+  it('surfaces JSON-RPC errors', async () => {
+    answer = ({ method }) =>
+      method === 'eth_signTransaction' ? { error: { code: -32000, message: 'request denied' } } : undefined;
+    const remote = await remoteSignerAccount(url);
+
+    await assert.rejects(remote.signTransaction(TRANSACTION), (error) => {
+      assert.ok(error instanceof SignerError);
+      assert.match(error.message, /rejected eth_signTransaction: request denied/);
+      return true;
+    });
+  });
+
+  it('reports an unreachable signer', async () => {
+    await assert.rejects(remoteSignerAccount('http://127.0.0.1:1'), /is not reachable/);
+  });
+});
+
+describe('signerSourceFromEnv', () => {
+  it('reads a remote signer with its address', () => {
+    assert.deepEqual(
+      signerSourceFromEnv('batch-poster', {
+        BATCH_POSTER_REMOTE_SIGNER_URL: url,
+        BATCH_POSTER_REMOTE_SIGNER_ADDRESS: account.address.toLowerCase(),
+      }),
+      { type: 'remote', url, address: account.address }
+    );
+  });
+
+  it('rejects more than one signer for a role', () => {
+    assert.throws(
+      () => signerSourceFromEnv('validator', { VALIDATOR_PRIVATE_KEY: PRIVATE_KEY, VALIDATOR_REMOTE_SIGNER_URL: url }),
+      /More than one signer is set for the validator/
+    );
+  });
+
+  it('falls back to the shared keystore password file', () => {
+    assert.deepEqual(
+      signerSourceFromEnv('deployer', { DEPLOYER_KEYSTORE: 'keys/deployer.json', KEYSTORE_PASSWORD_FILE: 'pw' }),
+      { type: 'keystore', path: 'keys/deployer.json', passwordFile: 'pw' }
+    );
+  });
+});
+
+describe('keystores', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orbit-signer-'));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('round-trips a key through an encrypted keystore', async () => {
+    const keystore = encryptKeystore(PRIVATE_KEY, 'correct horse');
+    const path = join(dir, 'deployer.json');
+    const passwordFile = join(dir, 'password');
+    writeFileSync(path, JSON.stringify(keystore));
+    writeFileSync(passwordFile, 'correct horse\n');
+
+    assert.equal(decryptKeystore(keystore, 'correct horse'), PRIVATE_KEY);
+    assert.throws(() => decryptKeystore(keystore, 'wrong'), /Wrong keystore password/);
+    assert.equal(await signerAddress({ type: 'keystore', path }), account.address);
+    assert.equal((await loadSigner({ type: 'keystore', path, passwordFile })).address, account.address);
+  });
+});
@@ -0,0 +1,411 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, scryptSync } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+import {
+  getAddress,
+  isAddress,
+  isHex,
+  keccak256,
+  numberToHex,
+  toHex,
+  type Address,
+  type Hex,
+  type LocalAccount,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { sanitizePrivateKey } from '@arbitrum/orbit-sdk/utils';
+
+export type SignerRole = 'deployer' | 'batch-poster' | 'validator' | 'treasury';
+
+// Where a role's key lives: a raw key (legacy), an encrypted JSON keystore, or a remote signer
+export type SignerSource =
+  | { type: 'private-key'; privateKey: string }
+  | { type: 'keystore'; path: string; passwordFile?: string }
+  | { type: 'remote'; url: string; address?: Address };
+
+// Variables per role: <privateKey>, <prefix>_KEYSTORE, <prefix>_KEYSTORE_PASSWORD_FILE,
+// <prefix>_REMOTE_SIGNER_URL and <prefix>_REMOTE_SIGNER_ADDRESS
+export const SIGNER_ENV: Record<SignerRole, { privateKey: string; prefix: string }> = {
+  deployer: { privateKey: 'PRIVATE_KEY', prefix: 'DEPLOYER' },
+  'batch-poster': { privateKey: 'BATCH_POSTER_PRIVATE_KEY', prefix: 'BATCH_POSTER' },
+  validator: { privateKey: 'VALIDATOR_PRIVATE_KEY', prefix: 'VALIDATOR' },
+  treasury: { privateKey: 'TREASURY_PRIVATE_KEY', prefix: 'TREASURY' },
+};
+
+// Password file shared by every keystore without its own
+export const KEYSTORE_PASSWORD_FILE_ENV = 'KEYSTORE_PASSWORD_FILE';
+
+export class SignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignerError';
+  }
+}
+
+/**
+ * Reads a role's signer from the environment. Undefined when none is
+ * configured; setting more than one source for a role is an error.
+ */
+export function signerSourceFromEnv(role: SignerRole, env: NodeJS.ProcessEnv = process.env): SignerSource | undefined {
+  const { privateKey, prefix } = SIGNER_ENV[role];
+  const sources: SignerSource[] = [];
+
+  if (env[privateKey]) {
+    sources.push({ type: 'private-key', privateKey: env[privateKey]! });
+  }
+  if (env[`${prefix}_KEYSTORE`]) {
+    sources.push({
+      type: 'keystore',
+      path: env[`${prefix}_KEYSTORE`]!,
+      passwordFile: env[`${prefix}_KEYSTORE_PASSWORD_FILE`] || env[KEYSTORE_PASSWORD_FILE_ENV] || undefined,
+    });
+  }
+  if (env[`${prefix}_REMOTE_SIGNER_URL`]) {
+    const address = env[`${prefix}_REMOTE_SIGNER_ADDRESS`];
+    if (address && !isAddress(address)) {
+      throw new SignerError(`${prefix}_REMOTE_SIGNER_ADDRESS is not an address: ${address}`);
+    }
+    sources.push({
+      type: 'remote',
+      url: env[`${prefix}_REMOTE_SIGNER_URL`]!,
+      ...(address && { address: getAddress(address) }),
+    });
+  }
+
+  if (sources.length > 1) {
+    throw new SignerError(
+      `More than one signer is set for the ${role}: ${privateKey}, ${prefix}_KEYSTORE and ${prefix}_REMOTE_SIGNER_URL are exclusive`
+    );
+  }
+  return sources[0];
+}
+
+export function describeSignerSource(source: SignerSource): string {
+  switch (source.type) {
+    case 'private-key':
+      return 'private key';
+    case 'keystore':
+      return `keystore ${source.path}`;
+    case 'remote':
+      return `remote signer ${source.url}`;
+  }
+}
+
+// Encrypted JSON keystore, version 3 (as written by geth, Clef, ethers and Foundry's cast)
+export interface Keystore {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: Record<string, any>;
+    mac: string;
+  };
+}
+
+// geth's "standard" scrypt cost
+const SCRYPT_N = 262144;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+function deriveKeystoreKey(password: string, crypto: Pick<Keystore['crypto'], 'kdf' | 'kdfparams'>): Buffer {
+  const params = crypto.kdfparams;
+  const salt = Buffer.from(params.salt, 'hex');
+  if (crypto.kdf === 'scrypt') {
+    return scryptSync(password, salt, params.dklen, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.n * params.r,
+    });
+  }
+  if (crypto.kdf === 'pbkdf2' && params.prf === 'hmac-sha256') {
+    return pbkdf2Sync(password, salt, params.c, params.dklen, 'sha256');
+  }
+  throw new SignerError(`Unsupported keystore key derivation: ${crypto.kdf}`);
+}
+
+function keystoreMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+export function decryptKeystore(keystore: Keystore, password: string): Hex {
+  const { crypto } = keystore;
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new SignerError(`Unsupported keystore cipher: ${crypto.cipher}`);
+  }
+  const derivedKey = deriveKeystoreKey(password, crypto);
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  if (keystoreMac(derivedKey, ciphertext) !== crypto.mac.toLowerCase()) {
+    throw new SignerError('Wrong keystore password');
+  }
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  return `0x${Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('hex')}`;
+}
+
+export function encryptKeystore(privateKey: Hex, password: string): Keystore {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const kdfparams = { dklen: 32, n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') };
+  const derivedKey = deriveKeystoreKey(password, { kdf: 'scrypt', kdfparams });
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), 'hex')), cipher.final()]);
+
+  // Random (version 4) UUID
+  const id = randomBytes(16);
+  id[6] = (id[6] & 0x0f) | 0x40;
+  id[8] = (id[8] & 0x3f) | 0x80;
+  const uuid = id.toString('hex').replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5');
+
+  return {
+    version: 3,
+    id: uuid,
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams,
+      mac: keystoreMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+export function readKeystore(path: string): Keystore {
+  if (!existsSync(path)) {
+    throw new SignerError(`Keystore not found: ${path}`);
+  }
+  let keystore: Keystore;
+  try {
+    keystore = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    throw new SignerError(`${path} is not a JSON keystore`);
+  }
+  if (keystore.version !== 3 || !keystore.crypto) {
+    throw new SignerError(`${path} is not a version 3 keystore`);
+  }
+  return keystore;
+}
+
+// Reads a password from the terminal without echoing it
+export async function promptPassword(prompt: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new SignerError(`${prompt.trim()} needs a terminal; set a password file instead`);
+  }
+  process.stdout.write(prompt);
+  // Readline echoes what is typed to its output; a muted one keeps the password off the screen
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+  return new Promise((resolve) => {
+    rl.question('', (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+// Prompted passwords by keystore path, so a keystore used for several roles is only asked for once
+const promptedPasswords = new Map<string, string>();
+
+export async function keystorePassword(source: Extract<SignerSource, { type: 'keystore' }>): Promise<string> {
+  if (source.passwordFile) {
+    if (!existsSync(source.passwordFile)) {
+      throw new SignerError(`Keystore password file not found: ${source.passwordFile}`);
+    }
+    // Password files conventionally end with a newline that isn't part of the password
+    return readFileSync(source.passwordFile, 'utf-8').replace(/\r?\n$/, '');
+  }
+  if (!promptedPasswords.has(source.path)) {
+    promptedPasswords.set(source.path, await promptPassword(`🔑 Password for ${source.path}: `));
+  }
+  return promptedPasswords.get(source.path)!;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+let rpcId = 0;
+
+async function remoteSignerRequest<T>(url: string, method: string, params: unknown[]): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++rpcId, method, params }),
+    });
+  } catch (error) {
+    throw new SignerError(`Remote signer ${url} is not reachable: ${(error as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new SignerError(`Remote signer ${url} returned HTTP ${response.status} for ${method}`);
+  }
+  const body = (await response.json()) as JsonRpcResponse<T>;
+  if (body.error) {
+    throw new SignerError(`Remote signer ${url} rejected ${method}: ${body.error.message}`);
+  }
+  return body.result as T;
+}
+
+// The transaction as eth_signTransaction takes it: quantities hex-encoded
+function rpcTransaction(from: Address, transaction: Record<string, any>): Record<string, unknown> {
+  const quantity = (value: bigint | number | undefined) => (value === undefined ? undefined : numberToHex(value));
+  const type = { legacy: '0x0', eip2930: '0x1', eip1559: '0x2' }[transaction.type as string];
+  return Object.fromEntries(
+    Object.entries({
+      from,
+      to: transaction.to,
+      data: transaction.data,
+      value: quantity(transaction.value),
+      gas: quantity(transaction.gas),
+      nonce: quantity(transaction.nonce),
+      chainId: quantity(transaction.chainId),
+      gasPrice: quantity(transaction.gasPrice),
+      maxFeePerGas: quantity(transaction.maxFeePerGas),
+      maxPriorityFeePerGas: quantity(transaction.maxPriorityFeePerGas),
+      accessList: transaction.accessList,
+      type,
+    }).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * An account whose transactions are signed by a remote signer over JSON-RPC
+ * (eth_signTransaction, as served by Web3Signer, Clef's eth namespace or a test
+ * stub). Without an address, the signer's first account is used.
+ */
+export async function remoteSignerAccount(url: string, address?: Address): Promise<LocalAccount<string>> {
+  const accounts = await remoteSignerRequest<string[]>(url, 'eth_accounts', []);
+  const signerAddress = address ?? (accounts[0] ? getAddress(accounts[0]) : undefined);
+  if (!signerAddress) {
+    throw new SignerError(`Remote signer ${url} has no accounts`);
+  }
+  if (!accounts.some((account) => account.toLowerCase() === signerAddress.toLowerCase())) {
+    throw new SignerError(`Remote signer ${url} does not hold ${signerAddress}`);
+  }
+
+  return toAccount({
+    address: signerAddress,
+    async signTransaction(transaction) {
+      const result = await remoteSignerRequest<Hex | { raw: Hex }>(url, 'eth_signTransaction', [
+        rpcTransaction(signerAddress, transaction),
+      ]);
+      // Clef answers with { raw, tx }
+      return typeof result === 'string' ? result : result.raw;
+    },
+    async signMessage({ message }) {
+      // eth_sign takes the message as hex data
+      const data = typeof message === 'string' ? toHex(message) : isHex(message.raw) ? message.raw : toHex(message.raw);
+      return remoteSignerRequest<Hex>(url, 'eth_sign', [signerAddress, data]);
+    },
+    async signTypedData(typedData) {
+      return remoteSignerRequest<Hex>(url, 'eth_signTypedData_v4', [
+        signerAddress,
+        JSON.stringify(typedData, (_, value) => (typeof value === 'bigint' ? value.toString() : value)),
+      ]);
+    },
+  });
+}
+
+// The raw key behind a source; remote signers never hand theirs out
+export async function signerPrivateKey(source: SignerSource): Promise<Hex | undefined> {
+  switch (source.type) {
+    case 'private-key':
+      return sanitizePrivateKey(source.privateKey);
+    case 'keystore':
+      return decryptKeystore(readKeystore(source.path), await keystorePassword(source));
+    case 'remote':
+      return undefined;
+  }
+}
+
+export async function loadSigner(source: SignerSource): Promise<LocalAccount<string>> {
+  if (source.type === 'remote') {
+    return remoteSignerAccount(source.url, source.address);
+  }
+  const account = privateKeyToAccount((await signerPrivateKey(source))!);
+  if (source.type === 'keystore') {
+    const recorded = readKeystore(source.path).address;
+    if (recorded && getAddress(`0x${recorded.replace(/^0x/, '')}`) !== account.address) {
+      throw new SignerError(`Keystore ${source.path} records ${recorded} but holds the key of ${account.address}`);
+    }
+  }
+  return account;
+}
+
+// A source's address, without decrypting keystores or asking for a password
+export async function signerAddress(source: SignerSource): Promise<Address> {
+  switch (source.type) {
+    case 'private-key':
+      return privateKeyToAccount(sanitizePrivateKey(source.privateKey)).address;
+    case 'keystore': {
+      const { address } = readKeystore(source.path);
+      if (!address) {
+        throw new SignerError(`Keystore ${source.path} does not record its address`);
+      }
+      return getAddress(`0x${address.replace(/^0x/, '')}`);
+    }
+    case 'remote':
+      return (await remoteSignerAccount(source.url, source.address)).address;
+  }
+}
+
+export async function loadRoleSigner(role: SignerRole, env: NodeJS.ProcessEnv = process.env): Promise<LocalAccount<string>> {
+  const source = signerSourceFromEnv(role, env);
+  if (!source) {
+    const { privateKey, prefix } = SIGNER_ENV[role];
+    throw new SignerError(`No signer for the ${role}: set ${prefix}_KEYSTORE, ${prefix}_REMOTE_SIGNER_URL or ${privateKey}`);
+  }
+  return loadSigner(source);
+}
+
+export type OperatorRole = Extract<SignerRole, 'deployer' | 'batch-poster' | 'validator'>;
+
+// Addresses of the roles with a signer of their own, read without decrypting keystores
+export async function roleSignerAddresses(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Partial<Record<OperatorRole, Address>>> {
+  const addresses: Partial<Record<OperatorRole, Address>> = {};
+  for (const role of ['deployer', 'batch-poster', 'validator'] as const) {
+    const source = signerSourceFromEnv(role, env);
+    if (source) {
+      addresses[role] = await signerAddress(source);
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Checks the batch poster and validator addresses the rollup is (or will be)
+ * created with against the accounts their nodes sign as. A mismatch leaves
+ * the batch poster unable to post or the validator unable to stake.
+ */
+export function checkRoleAddresses(
+  configured: { batchPoster?: string; validators?: string[] },
+  signers: { batchPoster: Address; validator: Address }
+): void {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  if (same(signers.batchPoster, signers.validator)) {
+    throw new SignerError(
+      `The batch poster and validator both sign as ${signers.batchPoster}; they need separate keys (see npm run init-keys)`
+    );
+  }
+  if (configured.batchPoster && !same(configured.batchPoster, signers.batchPoster)) {
+    throw new SignerError(
+      `The batch poster address is ${configured.batchPoster}, but the batch poster signs as ${signers.batchPoster}`
+    );
+  }
+  if (configured.validators && !configured.validators.some((validator) => same(validator, signers.validator))) {
+    throw new SignerError(
+      `The validator addresses (${configured.validators.join(', ')}) don't include ${signers.validator}, the account the validator signs as`
+    );
+  }
+}
@@ -0,0 +1,115 @@
+export const NODE_ROLES = ['sequencer', 'full-node', 'validator'] as const;
+export type NodeRole = (typeof NODE_ROLES)[number];
+
+// Ports Nitro listens on inside its container
+export const NITRO_WS_PORT = 8548;
+export const NITRO_FEED_PORT = 9642;
+export const NITRO_METRICS_PORT = 6070;
+
+export interface TopologyNode {
+  // Compose service name, also used in container, volume and config file names
+  service: string;
+  role: NodeRole;
+}
+
+export class TopologyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TopologyError';
+  }
+}
+
+/**
+ * Parses a topology such as "sequencer,full-node:2,validator". A count after
+ * a role adds that many nodes. At most one sequencer and one validator are
+ * allowed, since they would otherwise post batches and stake with the same keys.
+ */
+export function parseTopology(spec: string): TopologyNode[] {
+  const counts = new Map<NodeRole, number>();
+
+  for (const entry of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [role, countText] = entry.split(':');
+    if (!NODE_ROLES.includes(role as NodeRole)) {
+      throw new TopologyError(`Unknown node role "${role}" (expected one of: ${NODE_ROLES.join(', ')})`);
+    }
+    const count = countText === undefined ? 1 : Number(countText);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new TopologyError(`Invalid node count "${countText}" for ${role}`);
+    }
+    counts.set(role as NodeRole, (counts.get(role as NodeRole) ?? 0) + count);
+  }
+
+  if (counts.get('sequencer') !== 1) {
+    throw new TopologyError('A topology needs exactly one sequencer');
+  }
+  if ((counts.get('validator') ?? 0) > 1) {
+    throw new TopologyError('A topology can have at most one validator');
+  }
+
+  const fullNodes = counts.get('full-node') ?? 0;
+  return [
+    { service: 'sequencer', role: 'sequencer' },
+    ...Array.from({ length: fullNodes }, (_, index): TopologyNode => ({
+      service: fullNodes === 1 ? 'full-node' : `full-node-${index + 1}`,
+      role: 'full-node',
+    })),
+    ...(counts.has('validator') ? [{ service: 'validator', role: 'validator' } as TopologyNode] : []),
+  ];
+}
+
+export interface RoleNodeConfigOptions {
+  // Where non-sequencer nodes forward transactions and read the feed from
+  sequencerUrl: string;
+  sequencerFeedUrl: string;
+}
+
+function disableWallet(section: Record<string, any> | undefined): Record<string, any> {
+  const { 'parent-chain-wallet': _wallet, ...rest } = section ?? {};
+  return { ...rest, enable: false };
+}
+
+/**
+ * Derives the config of one role from the all-in-one config written by
+ * deploy-orbit.ts, which runs the sequencer, batch poster and staker together.
+ *
+ * - sequencer: sequences and posts batches, publishes the feed, doesn't stake
+ * - full-node: no keys, forwards transactions to the sequencer and follows its feed
+ * - validator: like a full node, plus the staker with its wallet
+ */
+export function deriveRoleNodeConfig(
+  base: Record<string, any>,
+  role: NodeRole,
+  { sequencerUrl, sequencerFeedUrl }: RoleNodeConfigOptions
+): Record<string, any> {
+  const config = structuredClone(base);
+  const node = (config.node ??= {});
+  const execution = (config.execution ??= {});
+
+  if (role === 'sequencer') {
+    node.staker = disableWallet(node.staker);
+    node.feed = { ...node.feed, output: { enable: true, addr: '0.0.0.0', port: NITRO_FEED_PORT } };
+    return config;
+  }
+
+  node.sequencer = false;
+  node['delayed-sequencer'] = { ...node['delayed-sequencer'], enable: false };
+  node['batch-poster'] = disableWallet(node['batch-poster']);
+  node.feed = { ...node.feed, input: { url: [sequencerFeedUrl] } };
+  if (node.dangerous) {
+    delete node.dangerous['no-sequencer-coordinator'];
+  }
+  // Only the sequencer posts to Celestia
+  if (node['da-provider']) {
+    node['da-provider']['with-writer'] = false;
+  }
+
+  execution.sequencer = { ...execution.sequencer, enable: false };
+  execution['forwarding-target'] = sequencerUrl;
+
+  if (role === 'full-node') {
+    node.staker = disableWallet(node.staker);
+  } else {
+    node.staker = { ...node.staker, enable: true, strategy: node.staker?.strategy ?? 'MakeNodes' };
+  }
+  return config;
+}
@@ -1,4 +1,53 @@
+import type { DaMode } from '../manifest/index.js';
+
+// Addresses from the RollupCreated event (plus validatorUtils, which older
+// rollup creators deploy alongside the core contracts)
+export interface DeploymentContracts {
+  rollup?: string;
+  nativeToken?: string;
+  inbox?: string;
+  outbox?: string;
+  rollupEventInbox?: string;
+  challengeManager?: string;
+  adminProxy?: string;
+  sequencerInbox?: string;
+  bridge?: string;
+  upgradeExecutor?: string;
+  validatorUtils?: string;
+  validatorWalletCreator?: string;
+  deployedAtBlockNumber?: number;
+}
+
+// Metadata of a custom ERC-20 gas token, read from the parent chain at deploy time
+export interface NativeTokenInfo {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface CelestiaNamespace {
+  version: number;
+  // 28-byte namespace ID, 0x-prefixed
+  id: string;
+}
+
+// Rollup parameters the chain was created with, after SDK defaults were applied
+export interface RollupParameters {
+  owner: string;
+  confirmPeriodBlocks: number;
+  extraChallengeTimeBlocks: number;
+  baseStake: string;
+  stakeToken: string;
+  loserStakeEscrow: string;
+  wasmModuleRoot: string;
+  initialArbOSVersion: number;
+  dataAvailabilityCommittee: boolean;
+}
+
 export interface DeploymentInfo {
+  // Format version of the deployment file; files written before versioning are treated as 1
+  version: number;
   chainId: number;
   chainName: string;
   parentChain: string;
@@ -10,16 +59,15 @@ export interface DeploymentInfo {
   validators: string[];
   batchPoster: string;
   nativeToken: string;
-  contracts: {
-    rollup?: string;
-    inbox?: string;
-    outbox?: string;
-    adminProxy?: string;
-    sequencerInbox?: string;
-    bridge?: string;
-    utils?: string;
-    validatorWalletCreator?: string;
-  };
+  // Only set for chains that use a custom gas token
+  nativeTokenInfo?: NativeTokenInfo;
+  // Not present in files written before the parameters were configurable
+  rollupParameters?: RollupParameters;
+  // Where batches are posted; not present in files written before DA modes existed
+  daMode?: DaMode;
+  // Namespace the chain's batches are posted to, shared by every tool
+  celestiaNamespace?: CelestiaNamespace;
+  contracts: DeploymentContracts;
   rawEventData?: {
     topics: string[];
     data: string;